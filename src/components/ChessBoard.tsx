@@ -1,28 +1,67 @@
-import { useState } from "react";
-import { Chess } from "chess.js";
+import { useState, useRef } from "react";
+import { Chess, Piece, Square } from "chess.js";
+import { AnnotationColor, BoardArrow, SquareHighlight } from "@/utils/parsePgnService";
 
 interface ChessBoardProps {
   position: string;
-  onMove: (sourceSquare: string, targetSquare: string) => boolean;
+  /** `promotion` is the piece a pawn promotes to ('q', 'r', 'b' or 'n'). */
+  onMove: (sourceSquare: string, targetSquare: string, promotion?: string) => boolean;
   orientation?: "white" | "black";
   allowMoves?: boolean;
+  /** Lichess-style `[%cal]` arrows drawn on top of the board. */
+  arrows?: BoardArrow[];
+  /** Lichess-style `[%csl]` circled squares. */
+  highlights?: SquareHighlight[];
+  /** Squares of the move that led to `position`, tinted on the board. */
+  lastMove?: { from: string; to: string };
+}
+
+/** A piece being dragged; `x`/`y` are pointer coordinates relative to the board. */
+interface DragState {
+  from: string;
+  x: number;
+  y: number;
+  moved: boolean;
+  /** The square was already selected when the drag started. */
+  wasSelected: boolean;
 }
 
 const files = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
 const ranks = ['8', '7', '6', '5', '4', '3', '2', '1'];
 
+// Same brushes as the Lichess board
+const annotationColors: Record<AnnotationColor, string> = {
+  green: '#15781B',
+  red: '#882020',
+  yellow: '#e68f00',
+  blue: '#003088'
+};
+
 const pieceUnicode: { [key: string]: string } = {
   'wK': '♔', 'wQ': '♕', 'wR': '♖', 'wB': '♗', 'wN': '♘', 'wP': '♙',
   'bK': '♚', 'bQ': '♛', 'bR': '♜', 'bB': '♝', 'bN': '♞', 'bP': '♟'
 };
 
+// Order of the promotion chooser, counted from the promotion square
+const promotionPieces = ['q', 'n', 'r', 'b'];
+
+// Pixels the pointer has to travel before a press becomes a drag
+const DRAG_THRESHOLD = 4;
+
 export const ChessBoard = ({ 
   position, 
   onMove, 
   orientation = "white",
-  allowMoves = true 
+  allowMoves = true,
+  arrows = [],
+  highlights = [],
+  lastMove
 }: ChessBoardProps) => {
   const [selectedSquare, setSelectedSquare] = useState<string | null>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  // A pawn move waiting for the user to pick the promotion piece
+  const [pendingPromotion, setPendingPromotion] = useState<{ from: string; to: string } | null>(null);
+  const boardRef = useRef<HTMLDivElement>(null);
   
   // Use starting position as fallback if position is invalid
   const validPosition = position || "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
@@ -36,25 +75,18 @@ export const ChessBoard = ({
   }
   
   const board = chess.board();
-  
-  const handleSquareClick = (square: string) => {
-    if (!allowMoves) return;
-    
-    if (selectedSquare === null) {
-      // First click - select a piece
-      const piece = getPieceAtSquare(square);
-      if (piece) {
-        setSelectedSquare(square);
-      }
-    } else if (selectedSquare === square) {
-      // Clicking the same square - deselect
-      setSelectedSquare(null);
-    } else {
-      // Second click - attempt to move
-      const moveSuccessful = onMove(selectedSquare, square);
-      setSelectedSquare(null); // Always clear selection after move attempt
+
+  // Legal destinations of the selected piece; captures get a ring instead of a dot
+  const legalTargets = new Map<string, boolean>();
+  if (selectedSquare) {
+    for (const move of chess.moves({ square: selectedSquare as Square, verbose: true })) {
+      legalTargets.set(move.to, Boolean(move.captured));
     }
-  };
+  }
+
+  const checkedKing = chess.inCheck()
+    ? board.flat().find(piece => piece?.type === 'k' && piece.color === chess.turn())?.square
+    : undefined;
 
   const getPieceAtSquare = (square: string) => {
     const file = square[0];
@@ -64,25 +96,126 @@ export const ChessBoard = ({
     return board[rankIndex][fileIndex];
   };
 
-  const renderSquare = (piece: any, file: string, rank: string) => {
+  const isOwnPiece = (square: string) => getPieceAtSquare(square)?.color === chess.turn();
+
+  const tryMove = (from: string, to: string) => {
+    setSelectedSquare(null);
+    const candidates = chess.moves({ square: from as Square, verbose: true }).filter(move => move.to === to);
+    if (candidates.length === 0) return;
+    
+    if (candidates.some(move => move.promotion)) {
+      setPendingPromotion({ from, to });
+    } else {
+      onMove(from, to);
+    }
+  };
+
+  const choosePromotion = (piece: string) => {
+    if (!pendingPromotion) return;
+    setPendingPromotion(null);
+    onMove(pendingPromotion.from, pendingPromotion.to, piece);
+  };
+
+  // Pointer position relative to the board, and the square below it
+  const boardPoint = (event: React.PointerEvent) => {
+    const rect = boardRef.current?.getBoundingClientRect();
+    return rect
+      ? { x: event.clientX - rect.left, y: event.clientY - rect.top, size: rect.width / 8 }
+      : { x: 0, y: 0, size: 1 };
+  };
+
+  const squareAt = (x: number, y: number, size: number): string | null => {
+    const col = Math.floor(x / size);
+    const row = Math.floor(y / size);
+    if (col < 0 || col > 7 || row < 0 || row > 7) return null;
+    return orientation === "black"
+      ? files[7 - col] + ranks[7 - row]
+      : files[col] + ranks[row];
+  };
+
+  // Press: complete a click-click move, or pick up one of the side to move's pieces
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!allowMoves || pendingPromotion || event.button > 0) return;
+    
+    const { x, y, size } = boardPoint(event);
+    const square = squareAt(x, y, size);
+    if (!square) return;
+    
+    if (selectedSquare && legalTargets.has(square)) {
+      tryMove(selectedSquare, square);
+      return;
+    }
+    
+    if (isOwnPiece(square)) {
+      event.currentTarget.setPointerCapture(event.pointerId);
+      setDrag({ from: square, x, y, moved: false, wasSelected: selectedSquare === square });
+      setSelectedSquare(square);
+    } else {
+      setSelectedSquare(null);
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    
+    const { x, y } = boardPoint(event);
+    const moved = drag.moved || Math.hypot(x - drag.x, y - drag.y) > DRAG_THRESHOLD;
+    setDrag({ ...drag, x, y, moved });
+  };
+
+  // Release: drop the dragged piece, or toggle the selection on a plain click
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    
+    const { x, y, size } = boardPoint(event);
+    const square = squareAt(x, y, size);
+    setDrag(null);
+    
+    if (square && square !== drag.from) {
+      tryMove(drag.from, square);
+    } else if (!drag.moved && drag.wasSelected) {
+      setSelectedSquare(null);
+    }
+  };
+
+  const renderSquare = (piece: Piece | null, file: string, rank: string) => {
     const square = file + rank;
     const isDark = (files.indexOf(file) + ranks.indexOf(rank)) % 2 === 1;
     const isSelected = selectedSquare === square;
+    const isLastMove = lastMove?.from === square || lastMove?.to === square;
+    const isDragged = drag?.moved && drag.from === square;
     const pieceSymbol = piece ? pieceUnicode[piece.color + piece.type.toUpperCase()] || '' : '';
     
+    const background = isSelected
+      ? 'bg-chess-selected'
+      : isLastMove
+        ? 'bg-chess-last-move'
+        : isDark ? 'bg-chess-dark' : 'bg-chess-light';
+    
     return (
       <div
         key={square}
         className={`
-          w-12 h-12 flex items-center justify-center text-2xl cursor-pointer
+          relative w-12 h-12 flex items-center justify-center text-2xl select-none
           transition-colors duration-200
-          ${isDark ? 'bg-chess-dark' : 'bg-chess-light'}
-          ${isSelected ? 'bg-chess-selected' : ''}
-          ${allowMoves ? 'hover:bg-chess-highlight' : ''}
+          ${background}
+          ${allowMoves ? 'cursor-pointer hover:bg-chess-highlight' : ''}
         `}
-        onClick={() => handleSquareClick(square)}
       >
-        {pieceSymbol}
+        {checkedKing === square && (
+          <div
+            className="absolute inset-0"
+            style={{ background: 'radial-gradient(circle, hsl(var(--chess-check)) 0%, hsl(var(--chess-check) / 0.5) 40%, transparent 75%)' }}
+          />
+        )}
+        <span className={`relative ${isDragged ? 'opacity-30' : ''}`}>{pieceSymbol}</span>
+        {legalTargets.has(square) && (
+          legalTargets.get(square) ? (
+            <div className="absolute inset-0.5 rounded-full border-4 border-black/25 pointer-events-none" />
+          ) : (
+            <div className="absolute w-3 h-3 rounded-full bg-black/25 pointer-events-none" />
+          )
+        )}
       </div>
     );
   };
@@ -105,6 +238,138 @@ export const ChessBoard = ({
     });
   };
 
+  // The dragged piece follows the pointer above the board
+  const renderDraggedPiece = () => {
+    if (!drag?.moved) return null;
+    
+    const piece = getPieceAtSquare(drag.from);
+    if (!piece) return null;
+    
+    return (
+      <div
+        className="absolute w-12 h-12 flex items-center justify-center text-3xl pointer-events-none z-10"
+        style={{ left: drag.x, top: drag.y, transform: 'translate(-50%, -50%)' }}
+      >
+        {pieceUnicode[piece.color + piece.type.toUpperCase()]}
+      </div>
+    );
+  };
+
+  // Pieces to promote to, stacked from the promotion square towards the centre
+  const renderPromotionChooser = () => {
+    if (!pendingPromotion) return null;
+    
+    const color = chess.turn();
+    const fileIndex = files.indexOf(pendingPromotion.to[0]);
+    const col = orientation === "black" ? 7 - fileIndex : fileIndex;
+    const fromTop = (pendingPromotion.to[1] === '8') === (orientation === "white");
+    
+    return (
+      <div
+        className="absolute inset-0 z-20 bg-black/30"
+        onPointerDown={(event) => {
+          event.stopPropagation();
+          setPendingPromotion(null);
+        }}
+      >
+        {promotionPieces.map((piece, index) => (
+          <button
+            key={piece}
+            type="button"
+            aria-label={`Promote to ${piece}`}
+            className="absolute flex items-center justify-center text-3xl bg-background rounded-full shadow hover:bg-chess-highlight"
+            style={{
+              left: `${col * 12.5}%`,
+              top: `${(fromTop ? index : 7 - index) * 12.5}%`,
+              width: '12.5%',
+              height: '12.5%'
+            }}
+            onPointerDown={(event) => event.stopPropagation()}
+            onClick={() => choosePromotion(piece)}
+          >
+            {pieceUnicode[color + piece.toUpperCase()]}
+          </button>
+        ))}
+      </div>
+    );
+  };
+
+  // Centre of a square in board units (one square = 1), respecting orientation
+  const squareCenter = (square: string) => {
+    const fileIndex = files.indexOf(square[0]);
+    const rankIndex = ranks.indexOf(square[1]);
+    return orientation === "black"
+      ? { x: 7 - fileIndex + 0.5, y: 7 - rankIndex + 0.5 }
+      : { x: fileIndex + 0.5, y: rankIndex + 0.5 };
+  };
+
+  const renderOverlay = () => {
+    if (arrows.length === 0 && highlights.length === 0) return null;
+
+    return (
+      <svg
+        className="absolute inset-0 w-full h-full pointer-events-none"
+        viewBox="0 0 8 8"
+      >
+        <defs>
+          {Object.entries(annotationColors).map(([color, fill]) => (
+            <marker
+              key={color}
+              id={`arrowhead-${color}`}
+              markerWidth="4"
+              markerHeight="4"
+              refX="0"
+              refY="2"
+              orient="auto"
+            >
+              <path d="M0,0 L4,2 L0,4 z" fill={fill} />
+            </marker>
+          ))}
+        </defs>
+
+        {highlights.map(({ square, color }, index) => {
+          const { x, y } = squareCenter(square);
+          return (
+            <circle
+              key={`highlight-${index}`}
+              cx={x}
+              cy={y}
+              r={0.45}
+              fill="none"
+              stroke={annotationColors[color]}
+              strokeWidth={0.07}
+              opacity={0.9}
+            />
+          );
+        })}
+
+        {arrows.map(({ from, to, color }, index) => {
+          const start = squareCenter(from);
+          const end = squareCenter(to);
+          const length = Math.hypot(end.x - start.x, end.y - start.y);
+          if (length === 0) return null;
+
+          // Stop the shaft early so the arrowhead tip lands near the target centre
+          const shorten = 0.7 / length;
+          return (
+            <line
+              key={`arrow-${index}`}
+              x1={start.x}
+              y1={start.y}
+              x2={end.x - (end.x - start.x) * shorten}
+              y2={end.y - (end.y - start.y) * shorten}
+              stroke={annotationColors[color]}
+              strokeWidth={0.15}
+              strokeLinecap="round"
+              markerEnd={`url(#arrowhead-${color})`}
+              opacity={0.8}
+            />
+          );
+        })}
+      </svg>
+    );
+  };
+
   return (
     <div className="chess-board-container max-w-md mx-auto">
       <div 
@@ -114,8 +379,18 @@ export const ChessBoard = ({
           padding: '12px'
         }}
       >
-        <div className="inline-block">
+        <div
+          ref={boardRef}
+          className="inline-block relative touch-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={() => setDrag(null)}
+        >
           {renderBoard()}
+          {renderOverlay()}
+          {renderDraggedPiece()}
+          {renderPromotionChooser()}
         </div>
       </div>
     </div>
@@ -0,0 +1,58 @@
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Library, FolderOpen, Trash2 } from "lucide-react";
+import { DeckSummary } from "@/utils/deckStorage";
+
+interface DeckLibraryProps {
+  decks: DeckSummary[];
+  onOpenDeck: (deckId: string) => void;
+  onDeleteDeck: (deckId: string) => void;
+}
+
+export const DeckLibrary = ({ decks, onOpenDeck, onDeleteDeck }: DeckLibraryProps) => {
+  if (decks.length === 0) return null;
+
+  return (
+    <div className="container mx-auto px-6 pb-6 max-w-4xl">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Library className="w-5 h-5" />
+            Your Decks
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {decks.map((deck) => (
+            <div
+              key={deck.id}
+              className="flex items-center justify-between gap-4 p-3 rounded-lg border"
+            >
+              <div className="min-w-0">
+                <p className="font-medium truncate">{deck.name}</p>
+                <p className="text-sm text-muted-foreground">
+                  {deck.chapters} {deck.chapters === 1 ? 'chapter' : 'chapters'} · last used{' '}
+                  {formatDistanceToNow(deck.updatedAt, { addSuffix: true })}
+                </p>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <Button size="sm" onClick={() => onOpenDeck(deck.id)}>
+                  <FolderOpen className="w-4 h-4 mr-1" />
+                  Open
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => onDeleteDeck(deck.id)}
+                  aria-label={`Delete ${deck.name}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
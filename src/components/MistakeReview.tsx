@@ -0,0 +1,167 @@
+import { useState, useEffect, useRef } from "react";
+import { Chess } from "chess.js";
+import { ChessBoard } from "./ChessBoard";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { BoardArrow, sameSan } from "@/utils/parsePgnService";
+import { TrainingPosition } from "@/utils/repertoire";
+import { CLEAR_STREAK, Mistake, advanceQueue, mistakePosition } from "@/utils/mistakes";
+import { ArrowLeft, CheckCircle, XCircle } from "lucide-react";
+import { toast } from "sonner";
+
+interface MistakeReviewProps {
+  /** Open mistakes at the start of the session, see `openMistakes`. */
+  mistakes: Mistake[];
+  /** Line names for the positions, by variation id. */
+  variationNames?: Record<string, string>;
+  onExit: () => void;
+  /** Called for every move played, so the mistake log stays up to date. */
+  onMoveAttempt?: (position: TrainingPosition, played: string, correct: boolean) => void;
+}
+
+export const MistakeReview = ({ mistakes, variationNames = {}, onExit, onMoveAttempt }: MistakeReviewProps) => {
+  const [queue, setQueue] = useState(mistakes);
+  const [gamePosition, setGamePosition] = useState(mistakes[0]?.fen ?? '');
+  const [waiting, setWaiting] = useState(false);
+  const [moveStatus, setMoveStatus] = useState<'correct' | 'incorrect' | null>(null);
+  const [lastMove, setLastMove] = useState<{ from: string; to: string } | undefined>();
+  // The expected move, shown after a wrong answer
+  const [solution, setSolution] = useState<BoardArrow[]>([]);
+  const timersRef = useRef<number[]>([]);
+
+  const current = queue[0];
+  const cleared = mistakes.length - new Set(queue.map(mistake => mistake.key)).size;
+
+  useEffect(() => () => timersRef.current.forEach(clearTimeout), []);
+
+  const later = (callback: () => void, delay: number) => {
+    timersRef.current.push(window.setTimeout(callback, delay));
+  };
+
+  const showNext = (next: Mistake[]) => {
+    setQueue(next);
+    setMoveStatus(null);
+    setLastMove(undefined);
+    setSolution([]);
+    setWaiting(false);
+
+    if (next.length === 0) {
+      toast.success("All mistakes cleared!");
+      later(onExit, 1500);
+      return;
+    }
+    setGamePosition(next[0].fen);
+  };
+
+  const handleMove = (sourceSquare: string, targetSquare: string, promotion?: string): boolean => {
+    if (waiting || !current) return false;
+
+    try {
+      const chess = new Chess(current.fen);
+      const move = chess.move({ from: sourceSquare, to: targetSquare, promotion });
+      if (!move) return false;
+
+      const isCorrect = sameSan(move.san, current.expected);
+      setGamePosition(chess.fen());
+      setLastMove({ from: move.from, to: move.to });
+      setMoveStatus(isCorrect ? 'correct' : 'incorrect');
+      setWaiting(true);
+      onMoveAttempt?.(mistakePosition(current), move.san, isCorrect);
+
+      const next = advanceQueue(queue, isCorrect);
+      if (isCorrect) {
+        later(() => showNext(next), 800);
+      } else {
+        const expected = new Chess(current.fen).move(current.expected);
+        setSolution([{ from: expected.from, to: expected.to, color: 'green' }]);
+        toast.error(`Incorrect! Expected: ${current.expected}`);
+        later(() => showNext(next), 2500);
+      }
+
+      return true;
+    } catch (error) {
+      console.error("Invalid move:", error);
+      return false;
+    }
+  };
+
+  const userColor = current?.fen.split(' ')[1] === 'b' ? 'black' : 'white';
+
+  return (
+    <div className="container mx-auto p-6 max-w-6xl">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2">
+          <div className="mb-4 flex items-center justify-between">
+            <Button variant="outline" onClick={onExit}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Variations
+            </Button>
+            <Badge variant="secondary">
+              Playing as {userColor}
+            </Badge>
+          </div>
+
+          <ChessBoard
+            position={gamePosition}
+            onMove={handleMove}
+            orientation={userColor}
+            allowMoves={!waiting && !!current}
+            arrows={solution}
+            lastMove={lastMove}
+          />
+        </div>
+
+        <div className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Review My Mistakes</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-2 text-center text-sm">
+                <div>
+                  <div className="text-2xl font-semibold">{cleared}/{mistakes.length}</div>
+                  <div className="text-muted-foreground">Cleared</div>
+                </div>
+                <div>
+                  <div className="text-2xl font-semibold">{current ? `${current.streak}/${CLEAR_STREAK}` : '–'}</div>
+                  <div className="text-muted-foreground">Streak</div>
+                </div>
+              </div>
+
+              {current && (
+                <div>
+                  <h4 className="text-sm font-medium mb-1">
+                    {current.variationId && variationNames[current.variationId]
+                      ? variationNames[current.variationId]
+                      : 'Current Position'}
+                  </h4>
+                  <p className="text-sm text-muted-foreground">
+                    {mistakePosition(current).description}. Answer it {CLEAR_STREAK} times in a row to clear it.
+                  </p>
+                </div>
+              )}
+
+              {moveStatus && (
+                <div className={`flex items-center gap-2 p-3 rounded-lg ${
+                  moveStatus === 'correct'
+                    ? 'bg-green-50 text-green-700 border border-green-200'
+                    : 'bg-red-50 text-red-700 border border-red-200'
+                }`}>
+                  {moveStatus === 'correct' ? (
+                    <CheckCircle className="w-4 h-4" />
+                  ) : (
+                    <XCircle className="w-4 h-4" />
+                  )}
+                  <span className="text-sm font-medium">
+                    {moveStatus === 'correct' ? 'Correct!' : `The move was ${current?.expected}`}
+                  </span>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,24 @@
+import { Node, nagGlyph } from "@/utils/parsePgnService";
+
+interface MoveAnnotationProps {
+  node: Node;
+}
+
+export const MoveAnnotation = ({ node }: MoveAnnotationProps) => {
+  const glyphs = node.nags?.map(nagGlyph).join(' ');
+
+  if (!node.commentBefore && !node.commentAfter && !glyphs) return null;
+
+  return (
+    <div className="rounded-lg border bg-muted/50 p-3 text-sm space-y-1">
+      <div className="font-mono font-medium">
+        {node.move}
+        {glyphs && <span className="ml-1 text-primary">{glyphs}</span>}
+      </div>
+      {node.commentBefore && (
+        <p className="text-muted-foreground italic">{node.commentBefore}</p>
+      )}
+      {node.commentAfter && <p>{node.commentAfter}</p>}
+    </div>
+  );
+};
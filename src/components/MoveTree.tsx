@@ -0,0 +1,126 @@
+import { useState, ReactNode } from "react";
+import { Node, nagGlyph } from "@/utils/parsePgnService";
+import { plyInfo } from "@/utils/repertoire";
+import { SubtreeStats } from "@/utils/treeStats";
+import { ChevronDown, ChevronRight } from "lucide-react";
+
+interface MoveTreeProps {
+  root: Node;
+  /** Highlighted move; `null` for the start position. */
+  selected: Node | null;
+  onSelect: (node: Node) => void;
+  /** Per-node statistics, shown on every variation header. */
+  stats?: Map<Node, SubtreeStats>;
+}
+
+// Variations nested this deep start collapsed
+const COLLAPSE_LEVEL = 2;
+
+export const StatsSummary = ({ stats }: { stats: SubtreeStats }) => (
+  <span className="text-xs text-muted-foreground whitespace-nowrap">
+    {stats.branches} {stats.branches === 1 ? 'line' : 'lines'} · depth {stats.depth}
+    {' · '}
+    <span className="text-green-700">{stats.learned} learned</span>
+    {' · '}
+    <span className="text-orange-600">{stats.due} due</span>
+    {' · '}
+    {stats.fresh} new
+  </span>
+);
+
+export const MoveTree = ({ root, selected, onSelect, stats }: MoveTreeProps) => {
+  // Variations whose default collapsed state the user has flipped
+  const [toggled, setToggled] = useState<Set<Node>>(new Set());
+
+  const toggle = (node: Node) => {
+    setToggled(prev => {
+      const next = new Set(prev);
+      if (next.has(node)) next.delete(node);
+      else next.add(node);
+      return next;
+    });
+  };
+
+  const renderMove = (node: Node, showNumber: boolean) => {
+    const { moveNumber, white } = plyInfo(node.fen, 0);
+    const glyphs = node.nags?.map(nagGlyph).join('');
+
+    return (
+      <button
+        key={`move-${node.fen}-${node.move}`}
+        type="button"
+        onClick={() => onSelect(node)}
+        className={`px-1 rounded font-mono text-sm hover:bg-muted ${
+          node === selected ? 'bg-primary text-primary-foreground hover:bg-primary' : ''
+        }`}
+      >
+        {white ? `${moveNumber}. ` : showNumber ? `${moveNumber}... ` : ''}
+        {node.move}
+        {glyphs && <span className="ml-0.5">{glyphs}</span>}
+      </button>
+    );
+  };
+
+  const renderVariation = (first: Node, parent: Node, level: number) => {
+    const collapsed = (level >= COLLAPSE_LEVEL) !== toggled.has(first);
+    const firstStats = stats?.get(first);
+
+    return (
+      <div key={`variation-${first.fen}-${first.move}`} className="w-full pl-3 my-1 border-l-2 border-muted">
+        <div className="flex items-center gap-1 flex-wrap">
+          <button
+            type="button"
+            onClick={() => toggle(first)}
+            className="text-muted-foreground hover:text-foreground"
+            aria-label={collapsed ? 'Expand variation' : 'Collapse variation'}
+          >
+            {collapsed ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+          </button>
+          {collapsed && renderMove(first, true)}
+          {firstStats && <StatsSummary stats={firstStats} />}
+        </div>
+        {!collapsed && (
+          <div className="flex flex-wrap items-center gap-y-0.5">
+            {renderLine(first, parent, level)}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  // A line follows first children; the alternatives to each of its moves
+  // are shown as indented variations right after that move.
+  const renderLine = (first: Node, parent: Node, level: number): ReactNode[] => {
+    const elements: ReactNode[] = [];
+    let move: Node | undefined = first;
+    let from = parent;
+    let showNumber = true;
+
+    while (move) {
+      elements.push(renderMove(move, showNumber));
+      showNumber = false;
+
+      if (move === from.children[0] && from.children.length > 1) {
+        for (const alternative of from.children.slice(1)) {
+          elements.push(renderVariation(alternative, from, level + 1));
+        }
+        showNumber = true;
+      }
+
+      from = move;
+      move = move.children[0];
+    }
+
+    return elements;
+  };
+
+  if (root.children.length === 0) {
+    return <p className="text-sm text-muted-foreground">This game has no moves.</p>;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-y-0.5">
+      {renderLine(root.children[0], root, 0)}
+    </div>
+  );
+};
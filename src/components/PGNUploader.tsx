@@ -1,17 +1,48 @@
-import { useState } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { Upload, FileText } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { ParseDiagnostics } from "@/components/ParseDiagnostics";
+import { ParseDiagnostic } from "@/utils/parsePgnService";
+import { Upload, FileText, BookOpen, X } from "lucide-react";
 import { toast } from "sonner";
 
 interface PGNUploaderProps {
-  onPGNLoaded: (pgn: string, deckName?: string) => void;
+  /** `merge` asks for all games of the PGN to be merged into one tree. */
+  onPGNLoaded: (pgn: string, deckName?: string, merge?: boolean) => void;
+  /** Titles of the games in a multi-game PGN, waiting for the user to pick. */
+  chapters?: string[];
+  onChaptersSelected?: (indexes: number[]) => void;
+  /** Problems found in the last PGN that was loaded. */
+  diagnostics?: ParseDiagnostic[];
+  /** Offered when the PGN has errors but could still be (partially) read. */
+  onLoadAnyway?: () => void;
+  /** Set while a PGN is being parsed; `total` is 0 until the moves are counted. */
+  progress?: { done: number; total: number } | null;
+  onCancel?: () => void;
 }
 
-export const PGNUploader = ({ onPGNLoaded }: PGNUploaderProps) => {
+export const PGNUploader = ({
+  onPGNLoaded,
+  chapters,
+  onChaptersSelected,
+  diagnostics = [],
+  onLoadAnyway,
+  progress,
+  onCancel
+}: PGNUploaderProps) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
   const [pgnText, setPgnText] = useState('');
   const [deckName, setDeckName] = useState('');
+  const [mergeGames, setMergeGames] = useState(false);
+  const [selectedChapters, setSelectedChapters] = useState<number[]>([]);
+
+  // Every chapter starts out selected
+  useEffect(() => {
+    setSelectedChapters(chapters ? chapters.map((_, i) => i) : []);
+  }, [chapters]);
 
   const samplePGN = `[Event "Ruy Lopez Training"]
 [Site "Training"]
@@ -26,7 +57,6 @@ export const PGNUploader = ({ onPGNLoaded }: PGNUploaderProps) => {
     setPgnText(samplePGN);
     setDeckName("Ruy Lopez Training");
     onPGNLoaded(samplePGN, "Ruy Lopez Training");
-    toast.success("Sample PGN loaded!");
   };
 
   const handleLoadPGN = () => {
@@ -35,25 +65,54 @@ export const PGNUploader = ({ onPGNLoaded }: PGNUploaderProps) => {
       return;
     }
     
-    const finalDeckName = deckName.trim() || "Untitled Deck";
-    onPGNLoaded(pgnText, finalDeckName);
-    toast.success("PGN loaded successfully!");
+    onPGNLoaded(pgnText, deckName.trim() || undefined, mergeGames);
+  };
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    // Several files are chapters of one repertoire: load them as one PGN and
+    // merge them. A file without a result token gets one, so its last game
+    // doesn't run into the next file's first one.
+    const contents = await Promise.all(files.map(file => file.text()));
+    const content = contents
+      .map(text => /(1-0|0-1|1\/2-1\/2|\*)\s*$/.test(text) ? text.trim() : `${text.trim()} *`)
+      .join('\n\n');
+    const fileName = files.map(file => file.name.replace(/\.pgn$/i, '')).join(' + ');
+    const merge = files.length > 1;
+
+    setPgnText(content);
+    setDeckName(fileName);
+    setMergeGames(merge);
+    onPGNLoaded(content, fileName, merge);
+  };
+
+  // Select the offending token in the text area so it can be fixed in place
+  const handleSelectDiagnostic = (diagnostic: ParseDiagnostic) => {
+    const textarea = textareaRef.current;
+    if (!textarea || diagnostic.line === undefined) return;
+    
+    const lines = pgnText.split('\n');
+    const start = lines.slice(0, diagnostic.line - 1).reduce((sum, line) => sum + line.length + 1, 0)
+      + (diagnostic.column ?? 1) - 1;
+    textarea.focus();
+    textarea.setSelectionRange(start, start + (diagnostic.token?.length ?? 1));
   };
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const content = e.target?.result as string;
-      setPgnText(content);
-      const fileName = file.name.replace('.pgn', '');
-      setDeckName(fileName);
-      onPGNLoaded(content, fileName);
-      toast.success("PGN file loaded!");
-    };
-    reader.readAsText(file);
+  const toggleChapter = (index: number, checked: boolean) => {
+    setSelectedChapters(prev =>
+      checked ? [...prev, index].sort((a, b) => a - b) : prev.filter(i => i !== index)
+    );
+  };
+
+  const handleLoadChapters = (indexes: number[]) => {
+    if (indexes.length === 0) {
+      toast.error("Please select at least one chapter");
+      return;
+    }
+    onChaptersSelected?.(indexes);
   };
 
   return (
@@ -91,6 +150,7 @@ export const PGNUploader = ({ onPGNLoaded }: PGNUploaderProps) => {
               Paste PGN text:
             </label>
             <Textarea
+              ref={textareaRef}
               value={pgnText}
               onChange={(e) => setPgnText(e.target.value)}
               placeholder="Paste your PGN here..."
@@ -98,8 +158,58 @@ export const PGNUploader = ({ onPGNLoaded }: PGNUploaderProps) => {
             />
           </div>
 
+          <div>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={mergeGames}
+                onCheckedChange={(checked) => setMergeGames(checked === true)}
+              />
+              Merge all games into one repertoire tree
+            </label>
+            <p className="mt-1 text-xs text-muted-foreground">
+              Games with the same start position become one tree, so there are no chapters to pick.
+              Uploading several files at once always merges every game of every file; upload a
+              multi-chapter file on its own to choose its chapters.
+            </p>
+          </div>
+
+          {progress && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm text-muted-foreground">
+                <span>
+                  {progress.total
+                    ? `Building the move tree – ${Math.min(progress.done, progress.total)} of ${progress.total} moves`
+                    : 'Reading the PGN…'}
+                </span>
+                {onCancel && (
+                  <Button size="sm" variant="ghost" onClick={onCancel}>
+                    <X className="w-4 h-4 mr-1" />
+                    Cancel
+                  </Button>
+                )}
+              </div>
+              <Progress value={progress.total ? (progress.done / progress.total) * 100 : 0} />
+            </div>
+          )}
+
+          {diagnostics.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">
+                  {diagnostics.length} {diagnostics.length === 1 ? 'problem' : 'problems'} found
+                </span>
+                {onLoadAnyway && (
+                  <Button size="sm" variant="outline" onClick={onLoadAnyway}>
+                    Load Anyway
+                  </Button>
+                )}
+              </div>
+              <ParseDiagnostics diagnostics={diagnostics} onSelect={handleSelectDiagnostic} />
+            </div>
+          )}
+
           <div className="flex gap-4">
-            <Button onClick={handleLoadPGN} disabled={!pgnText.trim()}>
+            <Button onClick={handleLoadPGN} disabled={!pgnText.trim() || !!progress}>
               Load PGN
             </Button>
             
@@ -111,6 +221,7 @@ export const PGNUploader = ({ onPGNLoaded }: PGNUploaderProps) => {
               <input
                 type="file"
                 accept=".pgn"
+                multiple
                 onChange={handleFileUpload}
                 className="hidden"
                 id="pgn-upload"
@@ -122,13 +233,61 @@ export const PGNUploader = ({ onPGNLoaded }: PGNUploaderProps) => {
               >
                 <label htmlFor="pgn-upload" className="cursor-pointer">
                   <Upload className="w-4 h-4 mr-2" />
-                  Upload PGN File
+                  Upload PGN Files
                 </label>
               </Button>
             </div>
           </div>
         </CardContent>
       </Card>
+
+      {chapters && chapters.length > 0 && (
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <BookOpen className="w-5 h-5" />
+              Choose Chapters
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              This PGN contains {chapters.length} games. Pick the chapters to add to the deck.
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="max-h-72 overflow-y-auto space-y-2 pr-2">
+              {chapters.map((title, index) => (
+                <label
+                  key={index}
+                  className="flex items-center gap-3 p-2 rounded-md hover:bg-muted cursor-pointer"
+                >
+                  <Checkbox
+                    checked={selectedChapters.includes(index)}
+                    onCheckedChange={(checked) => toggleChapter(index, checked === true)}
+                  />
+                  <span className="text-sm">
+                    <span className="text-muted-foreground mr-2">{index + 1}.</span>
+                    {title}
+                  </span>
+                </label>
+              ))}
+            </div>
+
+            <div className="flex gap-4">
+              <Button
+                onClick={() => handleLoadChapters(selectedChapters)}
+                disabled={selectedChapters.length === 0}
+              >
+                Load Selected ({selectedChapters.length})
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => handleLoadChapters(chapters.map((_, i) => i))}
+              >
+                Load All Chapters
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,47 @@
+import { AlertTriangle, XCircle } from "lucide-react";
+import { ParseDiagnostic } from "@/utils/parsePgnService";
+
+interface ParseDiagnosticsProps {
+  diagnostics: ParseDiagnostic[];
+  /** Called when a located diagnostic is clicked, to jump to it in the editor. */
+  onSelect?: (diagnostic: ParseDiagnostic) => void;
+}
+
+export const ParseDiagnostics = ({ diagnostics, onSelect }: ParseDiagnosticsProps) => {
+  if (diagnostics.length === 0) return null;
+
+  return (
+    <ul className="max-h-60 overflow-y-auto rounded-md border divide-y text-sm">
+      {diagnostics.map((diagnostic, index) => {
+        const located = diagnostic.line !== undefined;
+        return (
+          <li key={index}>
+            <button
+              type="button"
+              disabled={!located || !onSelect}
+              onClick={() => onSelect?.(diagnostic)}
+              className="w-full flex items-start gap-2 p-2 text-left hover:bg-muted disabled:hover:bg-transparent disabled:cursor-default"
+            >
+              {diagnostic.severity === 'error' ? (
+                <XCircle className="w-4 h-4 mt-0.5 shrink-0 text-destructive" />
+              ) : (
+                <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0 text-yellow-600" />
+              )}
+              <span className="min-w-0">
+                <span className="font-medium">
+                  {located && `Line ${diagnostic.line}, column ${diagnostic.column}: `}
+                  {diagnostic.message}
+                </span>
+                {diagnostic.fen && (
+                  <span className="block font-mono text-xs text-muted-foreground truncate">
+                    {diagnostic.fen}
+                  </span>
+                )}
+              </span>
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
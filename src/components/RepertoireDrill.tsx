@@ -0,0 +1,283 @@
+import { useState, useEffect, useRef } from "react";
+import { Chess } from "chess.js";
+import { ChessBoard } from "./ChessBoard";
+import { MoveAnnotation } from "./MoveAnnotation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Node, sameSan } from "@/utils/parsePgnService";
+import { TrainingPosition, formatMoves, moveSquares } from "@/utils/repertoire";
+import { CardState, ReviewGrade } from "@/utils/scheduler";
+import { ReplyStrategy, drillPosition, fenAfter, pickBranch } from "@/utils/repertoireDrill";
+import { RepertoireGraph } from "@/utils/repertoireGraph";
+import { checkMove } from "@/utils/moveCheck";
+import { getSetting, setSetting } from "@/utils/deckStorage";
+import { ArrowLeft, CheckCircle, XCircle, Shuffle } from "lucide-react";
+import { toast } from "sonner";
+
+interface RepertoireDrillProps {
+  /** Game trees of the deck; every line starts at one of their roots. */
+  roots: Node[];
+  userColor: 'white' | 'black';
+  /** The deck's graph, to recognise transpositions. */
+  graph?: RepertoireGraph;
+  /** Scheduling state, used to steer the opponent towards due branches. */
+  cards: Record<string, CardState>;
+  onExit: () => void;
+  /** Called once per visited position with the grade of the user's first attempt. */
+  onPositionGraded?: (position: TrainingPosition, grade: ReviewGrade) => void;
+  /** Called for every move played, including retries. */
+  onMoveAttempt?: (position: TrainingPosition, played: string, correct: boolean) => void;
+}
+
+export const RepertoireDrill = ({
+  roots,
+  userColor,
+  graph,
+  cards,
+  onExit,
+  onPositionGraded,
+  onMoveAttempt
+}: RepertoireDrillProps) => {
+  const [root, setRoot] = useState<Node | null>(null);
+  // Nodes played so far in the current line; the last one is the board position
+  const [line, setLine] = useState<Node[]>([]);
+  const [gamePosition, setGamePosition] = useState('');
+  const [waitingForResponse, setWaitingForResponse] = useState(true);
+  const [moveStatus, setMoveStatus] = useState<'correct' | 'incorrect' | null>(null);
+  const [strategy, setStrategy] = useState<ReplyStrategy>('due');
+  const [score, setScore] = useState({ correct: 0, total: 0, lines: 0 });
+  const [lastMove, setLastMove] = useState<{ from: string; to: string } | undefined>();
+  // Only the first attempt at a position counts towards its schedule
+  const gradedRef = useRef<Node | null>(null);
+  const timersRef = useRef<number[]>([]);
+  // Replies are picked from timers, so they read the latest settings and cards
+  const optionsRef = useRef({ strategy, cards });
+  optionsRef.current = { strategy, cards };
+
+  const current = line[line.length - 1] ?? root;
+  const position = current ? drillPosition(current, userColor) : undefined;
+
+  useEffect(() => {
+    getSetting<ReplyStrategy>('drillStrategy', 'due')
+      .then(setStrategy)
+      .catch(error => console.error("Failed to load settings:", error));
+  }, []);
+
+  // Pending opponent replies must not fire after leaving the drill
+  useEffect(() => () => timersRef.current.forEach(clearTimeout), []);
+
+  const later = (callback: () => void, delay: number) => {
+    timersRef.current.push(window.setTimeout(callback, delay));
+  };
+
+  const clearTimers = () => {
+    timersRef.current.forEach(clearTimeout);
+    timersRef.current = [];
+  };
+
+  const toggleStrategy = (checked: boolean) => {
+    const next: ReplyStrategy = checked ? 'due' : 'random';
+    setStrategy(next);
+    setSetting('drillStrategy', next)
+      .catch(error => console.error("Failed to save settings:", error));
+  };
+
+  // Continue from `node`: wait for the user, answer as the opponent, or
+  // start over once the repertoire has nothing more to say.
+  const advance = (lineRoot: Node, played: Node[]) => {
+    const node = played[played.length - 1] ?? lineRoot;
+    setGamePosition(fenAfter(node));
+    setLastMove(moveSquares(node));
+    setLine(played);
+    setMoveStatus(null);
+
+    if (node.children.length === 0) {
+      setWaitingForResponse(true);
+      setScore(prev => ({ ...prev, lines: prev.lines + 1 }));
+      toast.success("End of the line – starting a new one");
+      later(startLine, 1500);
+      return;
+    }
+
+    if (drillPosition(node, userColor)) {
+      setWaitingForResponse(false);
+      return;
+    }
+
+    setWaitingForResponse(true);
+    later(() => {
+      const reply = pickBranch(node.children, userColor, optionsRef.current);
+      if (reply) advance(lineRoot, [...played, reply]);
+    }, 800);
+  };
+
+  const startLine = () => {
+    const lineRoot = pickBranch(roots, userColor, optionsRef.current);
+    if (!lineRoot) return;
+
+    clearTimers();
+    gradedRef.current = null;
+    setRoot(lineRoot);
+    advance(lineRoot, []);
+  };
+
+  // Only the first line starts on mount; later ones follow the drill
+  const startLineRef = useRef(startLine);
+  startLineRef.current = startLine;
+  useEffect(() => {
+    startLineRef.current();
+  }, []);
+
+  const handleMove = (sourceSquare: string, targetSquare: string, promotion?: string): boolean => {
+    if (waitingForResponse || !root || !current || !position) return false;
+
+    try {
+      const chess = new Chess(fenAfter(current));
+      const move = chess.move({
+        from: sourceSquare,
+        to: targetSquare,
+        promotion
+      });
+
+      if (!move) return false;
+
+      const check = checkMove(position, move.san, graph);
+      const isCorrect = check.verdict === 'main';
+      // A side line of this very position is followed; other repertoire
+      // moves are accepted, but the main move is asked for again
+      const sideLine = current.children.find(child => sameSan(child.move, move.san));
+      const isAlternative = check.verdict !== 'wrong' && !isCorrect;
+      setGamePosition(chess.fen());
+      setLastMove({ from: move.from, to: move.to });
+      setMoveStatus(isCorrect || sideLine ? 'correct' : 'incorrect');
+      onMoveAttempt?.(position, move.san, isCorrect || isAlternative);
+
+      if (gradedRef.current !== current) {
+        gradedRef.current = current;
+        onPositionGraded?.(position, isCorrect ? 'good' : isAlternative ? 'hard' : 'again');
+        setScore(prev => ({
+          ...prev,
+          correct: prev.correct + (isCorrect || isAlternative ? 1 : 0),
+          total: prev.total + 1
+        }));
+      }
+
+      setWaitingForResponse(true);
+      if (isCorrect) {
+        later(() => advance(root, [...line, position.node]), 600);
+      } else if (sideLine) {
+        toast.info(check.message);
+        later(() => advance(root, [...line, sideLine]), 600);
+      } else if (isAlternative) {
+        toast.info(check.message);
+        later(() => advance(root, line), 2000);
+      } else {
+        toast.error(`Incorrect! Expected: ${position.moveToMake}`);
+        later(() => advance(root, line), 2000);
+      }
+
+      return true;
+    } catch (error) {
+      console.error("Invalid move:", error);
+      return false;
+    }
+  };
+
+  const annotatedNode = line[line.length - 1];
+
+  return (
+    <div className="container mx-auto p-6 max-w-6xl">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2">
+          <div className="mb-4 flex items-center justify-between">
+            <Button variant="outline" onClick={onExit}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Variations
+            </Button>
+            <Badge variant="secondary">
+              Playing as {userColor}
+            </Badge>
+          </div>
+
+          <ChessBoard
+            position={gamePosition}
+            onMove={handleMove}
+            orientation={userColor}
+            allowMoves={!waitingForResponse}
+            arrows={annotatedNode?.arrows}
+            highlights={annotatedNode?.highlights}
+            lastMove={lastMove}
+          />
+        </div>
+
+        <div className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Whole Repertoire</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-3 gap-2 text-center text-sm">
+                <div>
+                  <div className="text-2xl font-semibold">{score.correct}/{score.total}</div>
+                  <div className="text-muted-foreground">Correct</div>
+                </div>
+                <div>
+                  <div className="text-2xl font-semibold">{score.lines}</div>
+                  <div className="text-muted-foreground">Lines</div>
+                </div>
+                <div>
+                  <div className="text-2xl font-semibold">{line.length}</div>
+                  <div className="text-muted-foreground">Ply</div>
+                </div>
+              </div>
+
+              <div className="text-sm font-mono min-h-[1.25rem]">
+                {root && formatMoves(line.map(node => node.move), root.fen)}
+              </div>
+
+              {position && !waitingForResponse && (
+                <p className="text-sm text-muted-foreground">
+                  Your move – find the repertoire move.
+                </p>
+              )}
+
+              {moveStatus && (
+                <div className={`flex items-center gap-2 p-3 rounded-lg ${
+                  moveStatus === 'correct'
+                    ? 'bg-green-50 text-green-700 border border-green-200'
+                    : 'bg-red-50 text-red-700 border border-red-200'
+                }`}>
+                  {moveStatus === 'correct' ? (
+                    <CheckCircle className="w-4 h-4" />
+                  ) : (
+                    <XCircle className="w-4 h-4" />
+                  )}
+                  <span className="text-sm font-medium">
+                    {moveStatus === 'correct' ? 'Correct!' : 'Try again'}
+                  </span>
+                </div>
+              )}
+
+              {annotatedNode && <MoveAnnotation node={annotatedNode} />}
+
+              <label className="flex items-center justify-between text-sm">
+                <span>Prefer branches that are due</span>
+                <Switch
+                  checked={strategy === 'due'}
+                  onCheckedChange={toggleStrategy}
+                />
+              </label>
+
+              <Button variant="outline" size="sm" onClick={startLine} className="w-full">
+                <Shuffle className="w-4 h-4 mr-2" />
+                New Line
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
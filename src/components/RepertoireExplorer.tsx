@@ -0,0 +1,258 @@
+import { useState, useMemo } from "react";
+import { Chess } from "chess.js";
+import { ChessBoard } from "./ChessBoard";
+import { MoveAnnotation } from "./MoveAnnotation";
+import { MoveTree, StatsSummary } from "./MoveTree";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Node, ParsedGame, gameTitle, sameSan } from "@/utils/parsePgnService";
+import { moveSquares } from "@/utils/repertoire";
+import { fenAfter } from "@/utils/repertoireDrill";
+import { CardState } from "@/utils/scheduler";
+import { SubtreeStats, collectSubtreeStats } from "@/utils/treeStats";
+import {
+  NodePath,
+  EditHistory,
+  emptyHistory,
+  nodeAt,
+  pathTo,
+  addMove,
+  deleteSubtree,
+  promoteVariation,
+  setComments,
+  recordEdit,
+  undoEdit,
+  redoEdit
+} from "@/utils/treeEditor";
+import { ArrowLeft, FlipVertical, Trash2, ArrowUpToLine, Undo2, Redo2 } from "lucide-react";
+import { toast } from "sonner";
+
+interface RepertoireExplorerProps {
+  games: ParsedGame[];
+  /** Scheduling state, for the training status of each subtree. */
+  cards: Record<string, CardState>;
+  onExit: () => void;
+  /** Enables editing; receives the games with the edited tree after every change. */
+  onGamesChange?: (games: ParsedGame[]) => void;
+}
+
+export const RepertoireExplorer = ({ games, cards, onExit, onGamesChange }: RepertoireExplorerProps) => {
+  const [gameIndex, setGameIndex] = useState(0);
+  // Selection by path, so it survives edits that replace the nodes
+  const [path, setPath] = useState<NodePath>([]);
+  const [editing, setEditing] = useState(false);
+  const [history, setHistory] = useState<EditHistory>(emptyHistory);
+  // Side whose positions count as "to train" – also the board orientation
+  const [userColor, setUserColor] = useState<'white' | 'black'>('white');
+
+  const root = games[gameIndex]?.root;
+  const stats = useMemo(
+    () => root ? collectSubtreeStats(root, userColor, cards) : new Map<Node, SubtreeStats>(),
+    [root, userColor, cards]
+  );
+
+  const current = root ? nodeAt(root, path) ?? root : undefined;
+  const selected = path.length > 0 && current !== root ? current : null;
+  const currentStats = current ? stats.get(current) : undefined;
+
+  const selectGame = (value: string) => {
+    setGameIndex(Number(value));
+    setPath([]);
+    setHistory(emptyHistory);
+  };
+
+  const selectNode = (node: Node) => {
+    if (root) setPath(pathTo(root, node) ?? []);
+  };
+
+  const replaceRoot = (edited: Node) => {
+    onGamesChange?.(games.map((game, index) => index === gameIndex ? { ...game, root: edited } : game));
+  };
+
+  const applyEdit = (edited: Node, nextPath: NodePath) => {
+    if (!root) return;
+    setHistory(prev => recordEdit(prev, root));
+    replaceRoot(edited);
+    setPath(nextPath);
+  };
+
+  // Undo/redo may remove the selected move – fall back to its closest ancestor
+  const restore = (step: { history: EditHistory; root: Node } | null) => {
+    if (!step) return;
+    setHistory(step.history);
+    replaceRoot(step.root);
+    let kept = path;
+    while (kept.length > 0 && !nodeAt(step.root, kept)) kept = kept.slice(0, -1);
+    setPath(kept);
+  };
+
+  // Playing a repertoire move on the board walks into that branch; while
+  // editing, any other legal move is added as a new branch.
+  const handleMove = (from: string, to: string, promotion?: string): boolean => {
+    if (!root || !current) return false;
+    try {
+      const move = new Chess(fenAfter(current)).move({ from, to, promotion });
+      const index = current.children.findIndex(c => sameSan(c.move, move.san));
+      if (index >= 0) {
+        setPath([...path, index]);
+        return true;
+      }
+      if (!editing) return false;
+
+      const added = addMove(root, path, move.san);
+      applyEdit(added.root, added.path);
+      toast.success(`Added ${move.san}`);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  const stepBack = () => setPath(prev => prev.slice(0, -1));
+
+  const handleDelete = () => {
+    if (root && selected) applyEdit(deleteSubtree(root, path), path.slice(0, -1));
+  };
+
+  const handlePromote = () => {
+    if (!root || !selected) return;
+    const promoted = promoteVariation(root, path);
+    applyEdit(promoted.root, promoted.path);
+  };
+
+  const handleCommentChange = (field: 'commentBefore' | 'commentAfter', value: string) => {
+    if (!root || !current || (current[field] ?? '') === value.trim()) return;
+    applyEdit(setComments(root, path, { [field]: value.trim() }), path);
+  };
+
+  if (!root) return null;
+
+  return (
+    <div className="container mx-auto p-6 max-w-6xl">
+      <div className="mb-4 flex items-center justify-between gap-4">
+        <Button variant="outline" onClick={onExit}>
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Variations
+        </Button>
+        {games.length > 1 && (
+          <Select value={String(gameIndex)} onValueChange={selectGame}>
+            <SelectTrigger className="max-w-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {games.map((game, index) => (
+                <SelectItem key={index} value={String(index)}>
+                  {gameTitle(game, index)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <ChessBoard
+            position={fenAfter(current)}
+            onMove={handleMove}
+            orientation={userColor}
+            arrows={selected?.arrows}
+            highlights={selected?.highlights}
+            lastMove={moveSquares(selected ?? undefined)}
+          />
+          <div className="flex justify-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setPath([])} disabled={!selected}>
+              Start
+            </Button>
+            <Button variant="outline" size="sm" onClick={stepBack} disabled={!selected}>
+              Back
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setUserColor(color => color === 'white' ? 'black' : 'white')}
+            >
+              <FlipVertical className="w-4 h-4 mr-2" />
+              Train as {userColor === 'white' ? 'black' : 'white'}
+            </Button>
+          </div>
+          {!editing && selected && <MoveAnnotation node={selected} />}
+
+          {onGamesChange && (
+            <Card>
+              <CardContent className="pt-6 space-y-3">
+                <label className="flex items-center justify-between text-sm">
+                  <span>Edit mode – moves played on the board are added</span>
+                  <Switch checked={editing} onCheckedChange={setEditing} />
+                </label>
+
+                {editing && (
+                  <>
+                    <div className="flex flex-wrap gap-2">
+                      <Button variant="outline" size="sm" onClick={() => restore(undoEdit(history, root))} disabled={history.past.length === 0}>
+                        <Undo2 className="w-4 h-4 mr-2" />
+                        Undo
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => restore(redoEdit(history, root))} disabled={history.future.length === 0}>
+                        <Redo2 className="w-4 h-4 mr-2" />
+                        Redo
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={handlePromote} disabled={!selected || path[path.length - 1] === 0}>
+                        <ArrowUpToLine className="w-4 h-4 mr-2" />
+                        Promote to Main Line
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={handleDelete} disabled={!selected}>
+                        <Trash2 className="w-4 h-4 mr-2" />
+                        Delete from Here
+                      </Button>
+                    </div>
+
+                    {selected && (
+                      <Textarea
+                        key={`before-${path.join('.')}`}
+                        placeholder={`Comment before ${selected.move}`}
+                        defaultValue={selected.commentBefore ?? ''}
+                        onBlur={(event) => handleCommentChange('commentBefore', event.target.value)}
+                        rows={2}
+                      />
+                    )}
+                    <Textarea
+                      key={`after-${path.join('.')}`}
+                      placeholder={selected ? `Comment after ${selected.move}` : 'Game comment'}
+                      defaultValue={current?.commentAfter ?? ''}
+                      onBlur={(event) => handleCommentChange('commentAfter', event.target.value)}
+                      rows={3}
+                    />
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">Move Tree</CardTitle>
+            {currentStats && (
+              <div className="text-sm">
+                <span className="text-muted-foreground">
+                  {selected ? `After ${selected.move}: ` : 'Whole game: '}
+                </span>
+                <StatsSummary stats={currentStats} />
+              </div>
+            )}
+          </CardHeader>
+          <CardContent>
+            <ScrollArea className="h-[28rem] pr-3">
+              <MoveTree root={root} selected={selected} onSelect={selectNode} stats={stats} />
+            </ScrollArea>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
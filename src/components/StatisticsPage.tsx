@@ -0,0 +1,196 @@
+import { useMemo } from "react";
+import { format, parseISO } from "date-fns";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { MoveAttempt } from "@/utils/deckStorage";
+import { CardState } from "@/utils/scheduler";
+import { Variation, plyInfo } from "@/utils/repertoire";
+import {
+  dailyActivity,
+  mostMissed,
+  accuracyByVariation,
+  accuracyByDepth,
+  dueForecast
+} from "@/utils/trainingStats";
+import { ArrowLeft } from "lucide-react";
+
+interface StatisticsPageProps {
+  deckName: string;
+  /** The deck's move log, see `listAttempts`. */
+  attempts: MoveAttempt[];
+  cards: Record<string, CardState>;
+  /** For the names of the variations in the log. */
+  variations: Variation[];
+  onExit: () => void;
+}
+
+// Days shown in the activity charts and the forecast
+const HISTORY_DAYS = 30;
+const FORECAST_DAYS = 14;
+
+const chartConfig = {
+  attempts: { label: "Moves", color: "hsl(var(--primary))" },
+  accuracy: { label: "Accuracy %", color: "hsl(142 71% 45%)" },
+  due: { label: "Due", color: "hsl(25 95% 53%)" }
+} satisfies ChartConfig;
+
+const shortDate = (date: string) => format(parseISO(date), 'MMM d');
+
+export const StatisticsPage = ({ deckName, attempts, cards, variations, onExit }: StatisticsPageProps) => {
+  const stats = useMemo(() => ({
+    days: dailyActivity(attempts, HISTORY_DAYS),
+    missed: mostMissed(attempts),
+    byVariation: accuracyByVariation(attempts),
+    byDepth: accuracyByDepth(attempts).map(entry => ({ ...entry, move: String(entry.group) })),
+    forecast: dueForecast(cards, FORECAST_DAYS)
+  }), [attempts, cards]);
+
+  const variationName = (id?: string) => variations.find(v => v.id === id)?.name;
+  const correct = attempts.filter(attempt => attempt.correct).length;
+
+  return (
+    <div className="container mx-auto p-6 max-w-6xl">
+      <div className="mb-4 flex items-center justify-between">
+        <Button variant="outline" onClick={onExit}>
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Variations
+        </Button>
+      </div>
+
+      <div className="text-center mb-8">
+        <h1 className="text-3xl font-bold mb-2">{deckName} – Statistics</h1>
+        <p className="text-muted-foreground">
+          {attempts.length === 0
+            ? 'Train a few lines to see your statistics here.'
+            : `${attempts.length} moves played · ${Math.round((correct / attempts.length) * 100)}% correct`}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">Moves per Day</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={chartConfig} className="aspect-auto h-56 w-full">
+              <BarChart data={stats.days}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickFormatter={shortDate} tickLine={false} minTickGap={16} />
+                <YAxis allowDecimals={false} width={32} tickLine={false} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={shortDate} />} />
+                <Bar dataKey="attempts" fill="var(--color-attempts)" radius={2} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">Accuracy over Time</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={chartConfig} className="aspect-auto h-56 w-full">
+              <LineChart data={stats.days}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickFormatter={shortDate} tickLine={false} minTickGap={16} />
+                <YAxis domain={[0, 100]} width={32} tickLine={false} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={shortDate} />} />
+                <Line dataKey="accuracy" stroke="var(--color-accuracy)" strokeWidth={2} connectNulls dot={false} />
+              </LineChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">Due in the Next {FORECAST_DAYS} Days</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={chartConfig} className="aspect-auto h-56 w-full">
+              <BarChart data={stats.forecast}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickFormatter={shortDate} tickLine={false} minTickGap={16} />
+                <YAxis allowDecimals={false} width={32} tickLine={false} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={shortDate} />} />
+                <Bar dataKey="due" fill="var(--color-due)" radius={2} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">Accuracy by Move Number</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={chartConfig} className="aspect-auto h-56 w-full">
+              <BarChart data={stats.byDepth}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="move" tickLine={false} />
+                <YAxis domain={[0, 100]} width={32} tickLine={false} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={(move) => `Move ${move}`} />} />
+                <Bar dataKey="accuracy" fill="var(--color-accuracy)" radius={2} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">Accuracy by Variation</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {stats.byVariation.length === 0 && (
+              <p className="text-sm text-muted-foreground">No variation trained yet.</p>
+            )}
+            {stats.byVariation.map(entry => (
+              <div key={entry.group} className="space-y-1">
+                <div className="flex justify-between gap-4 text-sm">
+                  <span className="truncate">{variationName(entry.group) ?? 'Removed variation'}</span>
+                  <span className="text-muted-foreground whitespace-nowrap">
+                    {entry.accuracy}% of {entry.attempts}
+                  </span>
+                </div>
+                <Progress value={entry.accuracy} />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">Most Missed Positions</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {stats.missed.length === 0 && (
+              <p className="text-sm text-muted-foreground">No mistakes so far.</p>
+            )}
+            {stats.missed.map(position => {
+              const { white } = plyInfo(position.fen, 0);
+              return (
+                <div key={position.key} className="flex justify-between gap-4 p-2 rounded-lg border text-sm">
+                  <div className="min-w-0">
+                    <p className="font-mono">
+                      {position.moveNumber}{white ? '.' : '...'} {position.expected}
+                    </p>
+                    {variationName(position.variationId) && (
+                      <p className="text-xs text-muted-foreground truncate">
+                        {variationName(position.variationId)}
+                      </p>
+                    )}
+                  </div>
+                  <span className="text-red-600 whitespace-nowrap">
+                    missed {position.misses} of {position.attempts}
+                  </span>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
@@ -1,36 +1,97 @@
 import { useState, useEffect } from "react";
 import { Chess } from "chess.js";
 import { ChessBoard } from "./ChessBoard";
+import { MoveAnnotation } from "./MoveAnnotation";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
-import { TrainingPosition, Variation } from "@/utils/treeToVariations";
-import { ArrowLeft, RotateCcw, CheckCircle, XCircle, ChevronLeft, ChevronRight, Play } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Input } from "@/components/ui/input";
+import { TrainingPosition, Variation, formatMoves, moveSquares } from "@/utils/repertoire";
+import { Node } from "@/utils/parsePgnService";
+import { RepertoireGraph } from "@/utils/repertoireGraph";
+import { checkMove } from "@/utils/moveCheck";
+import { HintStep, buildHint, hintSteps, hintedGrade } from "@/utils/hints";
+import { ReviewGrade } from "@/utils/scheduler";
+import { getSetting, setSetting } from "@/utils/deckStorage";
+import { resolveTypedMove } from "@/utils/sanInput";
+import { ArrowLeft, RotateCcw, CheckCircle, XCircle, Info, Lightbulb, ChevronLeft, ChevronRight, Play, FlipVertical } from "lucide-react";
 import { toast } from "sonner";
 
 interface TrainingModeProps {
   variation: Variation;
   positions: TrainingPosition[];
   userColor: 'white' | 'black';
+  /** The deck's graph, to recognise side lines and transpositions. */
+  graph?: RepertoireGraph;
   onExit: () => void;
+  /** Skip the line viewer and start drilling right away (e.g. due-today queue). */
+  startInTraining?: boolean;
+  /** Called once per position with the grade of the user's first attempt. */
+  onPositionGraded?: (position: TrainingPosition, grade: ReviewGrade) => void;
+  /** Called for every move played in training, including retries. */
+  onMoveAttempt?: (position: TrainingPosition, played: string, correct: boolean) => void;
 }
 
-export const TrainingMode = ({ variation, positions, userColor, onExit }: TrainingModeProps) => {
+// Button labels for the next hint step
+const HINT_LABELS: Record<HintStep, string> = {
+  piece: 'Which piece?',
+  square: 'Where to?',
+  comment: 'Show the comment',
+  answer: 'Show the move'
+};
+
+export const TrainingMode = ({
+  variation,
+  positions,
+  userColor,
+  graph,
+  onExit,
+  startInTraining = false,
+  onPositionGraded,
+  onMoveAttempt
+}: TrainingModeProps) => {
   const [currentMoveIndex, setCurrentMoveIndex] = useState(0);
   const [chess] = useState(new Chess());
   const [gamePosition, setGamePosition] = useState('');
-  const [isTrainingMode, setIsTrainingMode] = useState(false);
+  const [isTrainingMode, setIsTrainingMode] = useState(startInTraining);
   const [waitingForResponse, setWaitingForResponse] = useState(false);
-  const [moveStatus, setMoveStatus] = useState<'correct' | 'incorrect' | null>(null);
+  const [moveStatus, setMoveStatus] = useState<'correct' | 'incorrect' | 'alternative' | null>(null);
+  // Feedback for a repertoire move that isn't the main move
+  const [alternativeMessage, setAlternativeMessage] = useState('');
   const [currentPositionIndex, setCurrentPositionIndex] = useState(0);
+  // Repertoire moves whose comments are shown after the user has played
+  const [revealedNodes, setRevealedNodes] = useState<Node[]>([]);
+  // Node whose [%cal]/[%csl] annotations match the board after a training move
+  const [annotatedNode, setAnnotatedNode] = useState<Node | null>(null);
+  const [showTrainingArrows, setShowTrainingArrows] = useState(true);
+  // Only the first attempt at a position counts towards its schedule
+  const [gradedPositionIndex, setGradedPositionIndex] = useState<number | null>(null);
+  const [lastMove, setLastMove] = useState<{ from: string; to: string } | undefined>();
+  // Hint steps shown for the current position
+  const [hintsUsed, setHintsUsed] = useState(0);
+  const [flipped, setFlipped] = useState(false);
+  const [typedMove, setTypedMove] = useState('');
 
   const currentPosition = positions[currentPositionIndex];
 
+  useEffect(() => {
+    getSetting('showTrainingArrows', true)
+      .then(setShowTrainingArrows)
+      .catch(error => console.error("Failed to load settings:", error));
+  }, []);
+
+  const toggleTrainingArrows = (checked: boolean) => {
+    setShowTrainingArrows(checked);
+    setSetting('showTrainingArrows', checked)
+      .catch(error => console.error("Failed to save settings:", error));
+  };
+
   useEffect(() => {
     if (!isTrainingMode) {
-      // View mode - show moves from the beginning
-      let tempChess = new Chess();
+      // View mode - show moves from the line's root position
+      let tempChess = new Chess(variation.startFen);
       
       // Apply moves sequentially from start position
       for (let i = 0; i < currentMoveIndex && i < variation.moves.length; i++) {
@@ -49,33 +110,51 @@ export const TrainingMode = ({ variation, positions, userColor, onExit }: Traini
       // Update the main chess instance and position
       chess.load(tempChess.fen());
       setGamePosition(tempChess.fen());
+      setLastMove(moveSquares(variation.nodes[currentMoveIndex - 1]));
     } else if (currentPosition) {
       // Training mode - load specific position
       chess.load(currentPosition.fen);
       setGamePosition(currentPosition.fen);
       setWaitingForResponse(false);
       setMoveStatus(null);
+      setLastMove(undefined);
+      setHintsUsed(0);
     }
-  }, [currentMoveIndex, isTrainingMode, currentPosition, chess, variation.moves]);
+  }, [currentMoveIndex, isTrainingMode, currentPosition, chess, variation.moves, variation.nodes, variation.startFen]);
 
-  const handleMove = (sourceSquare: string, targetSquare: string): boolean => {
+  const handleMove = (sourceSquare: string, targetSquare: string, promotion?: string): boolean => {
     if (waitingForResponse || !currentPosition) return false;
 
     try {
       const move = chess.move({
         from: sourceSquare,
         to: targetSquare,
-        promotion: 'q' // Always promote to queen for simplicity
+        promotion
       });
 
       if (!move) return false;
 
       // Check if this is the correct move
       const expectedMove = currentPosition.moveToMake;
-      const isCorrect = move.san === expectedMove || move.lan === expectedMove;
+      // Full SAN, so an underpromotion (exf1=N+) only counts with the right piece
+      const check = checkMove(currentPosition, move.san, graph);
+      const isCorrect = check.verdict === 'main' || move.lan === expectedMove;
+      // Another repertoire move: not a mistake, but the main move is still asked for
+      const isAlternative = !isCorrect && check.verdict !== 'wrong';
 
       setGamePosition(chess.fen());
-      setMoveStatus(isCorrect ? 'correct' : 'incorrect');
+      setLastMove({ from: move.from, to: move.to });
+      setMoveStatus(isCorrect ? 'correct' : isAlternative ? 'alternative' : 'incorrect');
+      setAlternativeMessage(check.message ?? '');
+      setRevealedNodes(currentPosition.node ? [currentPosition.node] : []);
+      setAnnotatedNode(isCorrect ? currentPosition.node ?? null : null);
+      onMoveAttempt?.(currentPosition, move.san, isCorrect || isAlternative);
+
+      if (gradedPositionIndex !== currentPositionIndex) {
+        setGradedPositionIndex(currentPositionIndex);
+        const grade = isCorrect ? 'good' : isAlternative ? 'hard' : 'again';
+        onPositionGraded?.(currentPosition, hintedGrade(currentPosition, grade, hintsUsed));
+      }
 
       if (isCorrect) {
         toast.success("Correct move!");
@@ -85,8 +164,13 @@ export const TrainingMode = ({ variation, positions, userColor, onExit }: Traini
         setTimeout(() => {
           if (currentPosition.responseMove) {
             try {
-              chess.move(currentPosition.responseMove);
+              const response = chess.move(currentPosition.responseMove);
               setGamePosition(chess.fen());
+              setLastMove({ from: response.from, to: response.to });
+              if (currentPosition.responseNode) {
+                setRevealedNodes(prev => [...prev, currentPosition.responseNode]);
+                setAnnotatedNode(currentPosition.responseNode);
+              }
             } catch (error) {
               console.error("Error making response move:", error);
             }
@@ -103,13 +187,15 @@ export const TrainingMode = ({ variation, positions, userColor, onExit }: Traini
           }, 800);
         }, 1000);
       } else {
-        toast.error(`Incorrect! Expected: ${expectedMove}`);
+        if (isAlternative) toast.info(check.message);
+        else toast.error(`Incorrect! Expected: ${expectedMove}`);
         
         // Reset position after showing error
         setTimeout(() => {
           chess.load(currentPosition.fen);
           setGamePosition(currentPosition.fen);
           setMoveStatus(null);
+          setLastMove(undefined);
         }, 2000);
       }
 
@@ -121,12 +207,59 @@ export const TrainingMode = ({ variation, positions, userColor, onExit }: Traini
   };
 
   const resetPosition = () => {
+    setAnnotatedNode(null);
     if (currentPosition) {
       chess.load(currentPosition.fen);
       setGamePosition(currentPosition.fen);
       setWaitingForResponse(false);
       setMoveStatus(null);
+      setLastMove(undefined);
+    }
+  };
+
+  // ←/→ step through the line, Home/End jump to its ends, F flips the board.
+  // Keys typed into a text field are left alone.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (target.closest('input, textarea, [contenteditable="true"]')) return;
+      if (event.altKey || event.ctrlKey || event.metaKey) return;
+
+      if (event.key === 'f' || event.key === 'F') {
+        setFlipped(prev => !prev);
+        return;
+      }
+      if (isTrainingMode) return;
+
+      const last = variation.moves.length;
+      const steps: Record<string, (index: number) => number> = {
+        ArrowLeft: index => Math.max(0, index - 1),
+        ArrowRight: index => Math.min(last, index + 1),
+        Home: () => 0,
+        End: () => last
+      };
+      const step = steps[event.key];
+      if (!step) return;
+      event.preventDefault();
+      setCurrentMoveIndex(step);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isTrainingMode, variation.moves.length]);
+
+  // The board still shows the previous answer until `moveStatus` is cleared
+  const typingBlocked = waitingForResponse || moveStatus !== null;
+
+  const handleTypedMove = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (typingBlocked) return;
+    const result = resolveTypedMove(gamePosition, typedMove);
+    if ('error' in result) {
+      toast.error(result.error);
+      return;
     }
+    if (handleMove(result.move.from, result.move.to, result.move.promotion)) setTypedMove('');
   };
 
   const goToPreviousMove = () => {
@@ -144,14 +277,34 @@ export const TrainingMode = ({ variation, positions, userColor, onExit }: Traini
   const startTraining = () => {
     setIsTrainingMode(true);
     setCurrentPositionIndex(0);
+    setGradedPositionIndex(null);
+    setRevealedNodes([]);
+    setAnnotatedNode(null);
   };
 
   const exitTraining = () => {
+    // A review queue has no line to fall back to
+    if (startInTraining) {
+      onExit();
+      return;
+    }
     setIsTrainingMode(false);
     setCurrentMoveIndex(0);
     setMoveStatus(null);
+    setRevealedNodes([]);
+    setAnnotatedNode(null);
   };
 
+  const steps = isTrainingMode && currentPosition ? hintSteps(currentPosition) : [];
+  const hint = hintsUsed > 0 && currentPosition ? buildHint(currentPosition, hintsUsed) : null;
+
+  // Review mode shows the annotations of the move on the board; training
+  // mode shows the hint until a move is played, then the move's annotations
+  // if the user wants them.
+  const boardAnnotations = isTrainingMode
+    ? (hint && !moveStatus ? hint : showTrainingArrows ? annotatedNode : null)
+    : variation.nodes[currentMoveIndex - 1] ?? null;
+
   const progressPercentage = isTrainingMode 
     ? ((currentPositionIndex + 1) / positions.length) * 100 
     : (currentMoveIndex / variation.moves.length) * 100;
@@ -173,13 +326,14 @@ export const TrainingMode = ({ variation, positions, userColor, onExit }: Traini
           
           <ChessBoard
             position={gamePosition}
-            onMove={isTrainingMode ? handleMove : (move) => {
+            onMove={isTrainingMode ? handleMove : (from, to, promotion) => {
               // In view mode, allow moves for exploration
               try {
                 const newChess = new Chess(gamePosition);
-                const result = newChess.move(move);
+                const result = newChess.move({ from, to, promotion });
                 if (result) {
                   setGamePosition(newChess.fen());
+                  setLastMove({ from: result.from, to: result.to });
                   return true;
                 }
                 return false;
@@ -187,9 +341,21 @@ export const TrainingMode = ({ variation, positions, userColor, onExit }: Traini
                 return false;
               }
             }}
-            orientation={userColor}
+            orientation={flipped ? (userColor === 'white' ? 'black' : 'white') : userColor}
             allowMoves={true}
+            arrows={boardAnnotations?.arrows}
+            highlights={boardAnnotations?.highlights}
+            lastMove={lastMove}
           />
+          <div className="mt-2 flex items-center justify-between text-xs text-muted-foreground">
+            <span>
+              {isTrainingMode ? 'F flips the board' : '← → step through the line · Home / End · F flips the board'}
+            </span>
+            <Button variant="ghost" size="sm" onClick={() => setFlipped(prev => !prev)}>
+              <FlipVertical className="w-4 h-4 mr-2" />
+              Flip
+            </Button>
+          </div>
         </div>
 
         {/* Training Info */}
@@ -253,6 +419,10 @@ export const TrainingMode = ({ variation, positions, userColor, onExit }: Traini
                       <strong>Current move:</strong> {variation.moves[currentMoveIndex - 1]}
                     </div>
                   )}
+
+                  {currentMoveIndex > 0 && variation.nodes[currentMoveIndex - 1] && (
+                    <MoveAnnotation node={variation.nodes[currentMoveIndex - 1]} />
+                  )}
                 </div>
               )}
 
@@ -266,6 +436,14 @@ export const TrainingMode = ({ variation, positions, userColor, onExit }: Traini
                   >
                     Exit Training Mode
                   </Button>
+
+                  <label className="flex items-center justify-between text-sm">
+                    <span>Show arrows after moves</span>
+                    <Switch
+                      checked={showTrainingArrows}
+                      onCheckedChange={toggleTrainingArrows}
+                    />
+                  </label>
                 </div>
               )}
 
@@ -276,25 +454,78 @@ export const TrainingMode = ({ variation, positions, userColor, onExit }: Traini
                     <p className="text-sm text-muted-foreground">
                       {currentPosition.description}
                     </p>
+                    {currentPosition.otherPaths && (
+                      <div className="mt-2 text-xs text-muted-foreground">
+                        <span className="font-medium">Also reached via:</span>
+                        {currentPosition.otherPaths.map((path, index) => (
+                          <div key={index} className="font-mono">
+                            {formatMoves(path, variation.startFen)}
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </div>
 
                   {moveStatus && (
                     <div className={`flex items-center gap-2 p-3 rounded-lg ${
                       moveStatus === 'correct' 
                         ? 'bg-green-50 text-green-700 border border-green-200' 
-                        : 'bg-red-50 text-red-700 border border-red-200'
+                        : moveStatus === 'alternative'
+                          ? 'bg-amber-50 text-amber-700 border border-amber-200'
+                          : 'bg-red-50 text-red-700 border border-red-200'
                     }`}>
                       {moveStatus === 'correct' ? (
                         <CheckCircle className="w-4 h-4" />
+                      ) : moveStatus === 'alternative' ? (
+                        <Info className="w-4 h-4" />
                       ) : (
                         <XCircle className="w-4 h-4" />
                       )}
                       <span className="text-sm font-medium">
-                        {moveStatus === 'correct' ? 'Correct!' : 'Try again'}
+                        {moveStatus === 'correct' ? 'Correct!' : moveStatus === 'alternative' ? alternativeMessage : 'Try again'}
                       </span>
                     </div>
                   )}
 
+                  {revealedNodes.map((node, index) => (
+                    <MoveAnnotation key={index} node={node} />
+                  ))}
+
+                  <form onSubmit={handleTypedMove} className="flex gap-2">
+                    <Input
+                      value={typedMove}
+                      onChange={(event) => setTypedMove(event.target.value)}
+                      placeholder="Type your move, e.g. Nf3"
+                      disabled={typingBlocked}
+                      aria-label="Type your move"
+                      autoComplete="off"
+                      spellCheck={false}
+                      className="font-mono"
+                    />
+                    <Button type="submit" variant="outline" disabled={typingBlocked || !typedMove.trim()}>
+                      Play
+                    </Button>
+                  </form>
+
+                  {hint && (
+                    <div className="p-3 rounded-lg bg-muted text-sm space-y-1">
+                      {hint.lines.map((line, index) => (
+                        <p key={index}>{line}</p>
+                      ))}
+                    </div>
+                  )}
+
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setHintsUsed(used => used + 1)}
+                    disabled={waitingForResponse || hintsUsed >= steps.length}
+                    className="w-full"
+                  >
+                    <Lightbulb className="w-4 h-4 mr-2" />
+                    {hintsUsed < steps.length ? `Hint: ${HINT_LABELS[steps[hintsUsed]]}` : 'No more hints'}
+                  </Button>
+
                   <Button 
                     variant="outline" 
                     size="sm" 
@@ -1,11 +1,13 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Variation } from "@/utils/treeToVariations";
-import { Play, BookOpen } from "lucide-react";
+import { Variation, formatMoves } from "@/utils/repertoire";
+import { Play, BookOpen, GitMerge } from "lucide-react";
 
 interface VariationCardProps {
   variation: Variation;
+  /** Name of the line `variation.transposesTo` points at. */
+  transposesInto?: string;
   onStartTraining: (variationId: string, userColor: 'white' | 'black') => void;
   progress?: {
     completed: number;
@@ -13,23 +15,7 @@ interface VariationCardProps {
   };
 }
 
-const formatMovesWithNumbers = (moves: string[]): string => {
-  const formatted: string[] = [];
-  for (let i = 0; i < moves.length; i += 2) {
-    const moveNumber = Math.floor(i / 2) + 1;
-    const whiteMove = moves[i];
-    const blackMove = moves[i + 1];
-    
-    if (blackMove) {
-      formatted.push(`${moveNumber}. ${whiteMove} ${blackMove}`);
-    } else {
-      formatted.push(`${moveNumber}. ${whiteMove}`);
-    }
-  }
-  return formatted.join(' ');
-};
-
-export const VariationCard = ({ variation, onStartTraining, progress }: VariationCardProps) => {
+export const VariationCard = ({ variation, transposesInto, onStartTraining, progress }: VariationCardProps) => {
   const progressPercentage = progress ? (progress.completed / progress.total) * 100 : 0;
 
   return (
@@ -44,6 +30,22 @@ export const VariationCard = ({ variation, onStartTraining, progress }: Variatio
             </Badge>
           )}
         </div>
+        {variation.opening && (
+          <p className="text-sm text-muted-foreground">
+            <span className="font-mono">{variation.opening.eco}</span> {variation.opening.name}
+          </p>
+        )}
+        {variation.chapter && (
+          <p className="text-xs text-muted-foreground">{variation.chapter}</p>
+        )}
+        {variation.transposesTo && (
+          <p className="flex items-center gap-1 text-xs text-muted-foreground">
+            <GitMerge className="w-3 h-3" />
+            Transposes into {transposesInto ?? 'another line'} after{' '}
+            {formatMoves(variation.moves.slice(0, variation.transposesTo.ply + 1), variation.startFen)}
+            {variation.sharedPlies && ` – ${variation.sharedPlies.length} shared moves are trained there`}
+          </p>
+        )}
         {progress && (
           <div className="mt-2">
             <div className="flex justify-between text-sm text-muted-foreground mb-1">
@@ -65,7 +67,7 @@ export const VariationCard = ({ variation, onStartTraining, progress }: Variatio
             {variation.moves.length} moves
           </p>
           <div className="text-sm font-mono text-foreground/80 line-clamp-3">
-            {formatMovesWithNumbers(variation.moves.slice(0, 10))}
+            {formatMoves(variation.moves.slice(0, 10), variation.startFen)}
             {variation.moves.length > 10 && '...'}
           </div>
         </div>
@@ -1,61 +1,457 @@
-import { useState } from "react";
+import { useState, useMemo, useEffect, useCallback, useRef } from "react";
 import { toast } from "sonner";
 import { PGNUploader } from "@/components/PGNUploader";
 import { VariationCard } from "@/components/VariationCard";
 import { TrainingMode } from "@/components/TrainingMode";
-import { parseGame } from "@/utils/parsePgnService";
-import { extractVariationsFromTree, createTrainingPositions, Variation, TrainingPosition } from "@/utils/treeToVariations";
+import { DeckLibrary } from "@/components/DeckLibrary";
+import { RepertoireDrill } from "@/components/RepertoireDrill";
+import { RepertoireExplorer } from "@/components/RepertoireExplorer";
+import { StatisticsPage } from "@/components/StatisticsPage";
+import { MistakeReview } from "@/components/MistakeReview";
+import { gameTitle, ParsedGame, ParseDiagnostic, PgnParseError } from "@/utils/parsePgnService";
+import { parseGamesInBackground } from "@/utils/backgroundParse";
+import { buildRepertoire, createTrainingPositions, plyInfo, Repertoire, Variation, TrainingPosition } from "@/utils/repertoire";
+import { serializeGames } from "@/utils/serializePgn";
+import { mergeGames } from "@/utils/mergeTrees";
+import { hashString } from "@/utils/contentId";
+import { Mistake, openMistakes } from "@/utils/mistakes";
+import { CardState, ReviewGrade, newCard, reviewCard, dueQueue } from "@/utils/scheduler";
+import {
+  StoredDeck,
+  DeckSummary,
+  saveDeck,
+  getDeck,
+  listDecks,
+  deleteDeck,
+  loadCards,
+  saveCard,
+  addReview,
+  addAttempt,
+  listAttempts,
+  MoveAttempt,
+  getSetting,
+  setSetting
+} from "@/utils/deckStorage";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from "@/components/ui/alert-dialog";
+import { CalendarClock, Library, Download, GitFork, ListTree, BarChart3, RotateCcw } from "lucide-react";
 
-type AppMode = 'upload' | 'variations' | 'training';
+type AppMode = 'upload' | 'variations' | 'training' | 'drill' | 'explore' | 'stats' | 'mistakes';
+
+// Name of decks uploaded without one; never used to match an existing deck
+const DEFAULT_DECK_NAME = 'Untitled Deck';
 
 const Index = () => {
   const [mode, setMode] = useState<AppMode>('upload');
-  const [variations, setVariations] = useState<Variation[]>([]);
+  const [repertoire, setRepertoire] = useState<Repertoire | null>(null);
   const [deckName, setDeckName] = useState<string>('');
+  const [deckId, setDeckId] = useState<string | null>(null);
+  const [decks, setDecks] = useState<DeckSummary[]>([]);
+  const [pendingGames, setPendingGames] = useState<{ games: ParsedGame[]; name: string; pgn: string } | null>(null);
+  const [diagnostics, setDiagnostics] = useState<ParseDiagnostic[]>([]);
+  // A PGN with illegal moves waits here until the user chooses to load it anyway
+  const [brokenLoad, setBrokenLoad] = useState<{ games: ParsedGame[]; name: string; pgn: string } | null>(null);
+  // An upload that may or may not replace an existing deck – a different file
+  // under its name, or its file with other chapters – until the user decides
+  const [deckClash, setDeckClash] = useState<{
+    deck: DeckSummary;
+    sameFile: boolean;
+    games: ParsedGame[];
+    name: string;
+    pgn: string;
+  } | null>(null);
+  // Progress of the PGN that is being parsed, and the means to cancel it
+  const [parseProgress, setParseProgress] = useState<{ done: number; total: number } | null>(null);
+  const parseAbortRef = useRef<AbortController | null>(null);
+  const [cards, setCards] = useState<Record<string, CardState>>({});
   const [currentTraining, setCurrentTraining] = useState<{
     variation: Variation;
     positions: TrainingPosition[];
     userColor: 'white' | 'black';
+    isReview?: boolean;
   } | null>(null);
+  const [drillColor, setDrillColor] = useState<'white' | 'black'>('white');
+  const [attempts, setAttempts] = useState<MoveAttempt[]>([]);
+  // Snapshot of the open mistakes when the review started
+  const [reviewedMistakes, setReviewedMistakes] = useState<Mistake[]>([]);
+
+  const refreshDecks = useCallback(() => {
+    listDecks()
+      .then(setDecks)
+      .catch(error => console.error("Failed to list decks:", error));
+  }, []);
+
+  const showDeck = useCallback((
+    deck: StoredDeck,
+    deckCards: Record<string, CardState>,
+    deckAttempts: MoveAttempt[]
+  ) => {
+    const loaded = buildRepertoire(deck.games);
+    
+    console.log('Parsed variations:', loaded.variations.length, loaded.variations);
+    
+    if (loaded.variations.length === 0) {
+      toast.error("Couldn't find any play-able moves in this PGN.");
+      return false;
+    }
+    
+    setRepertoire(loaded);
+    setDeckName(deck.name);
+    setDeckId(deck.id);
+    setCards(deckCards);
+    setAttempts(deckAttempts);
+    console.log('Setting mode to variations');
+    setMode('variations');
+    return true;
+  }, []);
 
-  const handlePGNLoaded = (pgn: string, name?: string) => {
+  const openDeck = useCallback(async (id: string) => {
+    const deck = await getDeck(id);
+    if (!deck) return;
+    
+    if (showDeck(deck, await loadCards(id), await listAttempts(id))) {
+      await saveDeck({ ...deck, updatedAt: Date.now() });
+      await setSetting('lastDeckId', id);
+      refreshDecks();
+    }
+  }, [showDeck, refreshDecks]);
+
+  // Reopen the deck that was in use before the page was reloaded
+  useEffect(() => {
+    refreshDecks();
+    getSetting<string | null>('lastDeckId', null)
+      .then(id => id && openDeck(id))
+      .catch(error => console.error("Failed to restore last deck:", error));
+  }, [refreshDecks, openDeck]);
+
+  // Updating `existing` in place keeps its position-keyed progress for the
+  // new version of the file; without it a new deck is created
+  const storeGames = async (games: ParsedGame[], name: string, pgn: string, existing?: DeckSummary) => {
+    const now = Date.now();
+    const deck: StoredDeck = existing
+      ? { id: existing.id, name: existing.name, pgn, games, createdAt: existing.createdAt, updatedAt: now }
+      : { id: crypto.randomUUID(), name, pgn, games, createdAt: now, updatedAt: now };
+    
+    const deckCards = existing ? await loadCards(existing.id) : {};
+    const deckAttempts = existing ? await listAttempts(existing.id) : [];
+    if (!showDeck(deck, deckCards, deckAttempts)) return;
+    if (existing) toast.success(`Updated "${deck.name}" – your progress was kept`);
+    
+    await saveDeck(deck);
+    await setSetting('lastDeckId', deck.id);
+    refreshDecks();
+  };
+
+  const loadGames = async (games: ParsedGame[], name: string, pgn: string) => {
+    // The same file with the same chapters belongs to the deck it was first
+    // loaded into; with other chapters the user decides
+    const same = decks.find(d => d.pgnHash === hashString(pgn));
+    const stored = same && await getDeck(same.id);
+    if (same && stored?.pgn === pgn) {
+      if (serializeGames(stored.games) === serializeGames(games)) return storeGames(games, same.name, pgn, same);
+      setDeckClash({ deck: same, sameFile: true, games, name, pgn });
+      return;
+    }
+    
+    const namesake = name !== DEFAULT_DECK_NAME
+      && decks.find(d => d.name.trim().toLowerCase() === name.trim().toLowerCase());
+    if (namesake) {
+      setDeckClash({ deck: namesake, sameFile: false, games, name, pgn });
+      return;
+    }
+    
+    return storeGames(games, name, pgn);
+  };
+
+  const handleDeckClash = (replace: boolean) => {
+    if (!deckClash) return;
+    
+    const { deck, games, name, pgn } = deckClash;
+    storeGames(games, name, pgn, replace ? deck : undefined)
+      .catch(error => console.error("Failed to save deck:", error));
+    setDeckClash(null);
+  };
+
+  const proceedWithGames = (games: ParsedGame[], name: string, pgn: string) => {
+    if (games.length > 1) {
+      // Multi-game file (study export, repertoire dump) – let the user pick chapters first
+      setPendingGames({ games, name, pgn });
+      return;
+    }
+    
+    loadGames(games, name, pgn)
+      .catch(error => console.error("Failed to save deck:", error));
+  };
+
+  const handlePGNLoaded = async (pgn: string, name?: string, merge = false) => {
+    parseAbortRef.current?.abort();
+    const controller = new AbortController();
+    parseAbortRef.current = controller;
+    setPendingGames(null);
+    setBrokenLoad(null);
+    setParseProgress({ done: 0, total: 0 });
+    
     try {
-      const root = parseGame(pgn);
-      const parsedVariations = extractVariationsFromTree(root);
+      let games = await parseGamesInBackground(pgn, {
+        signal: controller.signal,
+        onProgress: (done, total) => setParseProgress({ done, total })
+      });
+      const found = games.flatMap(game => game.diagnostics);
       
-      console.log('Parsed variations:', parsedVariations.length, parsedVariations);
+      if (merge && games.length > 1) {
+        const merged = mergeGames(games);
+        games = merged.games;
+        pgn = serializeGames(games);
+        // Conflicts don't block loading – both moves are kept – but deserve a look
+        found.push(...merged.conflicts.map((conflict): ParseDiagnostic => ({
+          severity: 'warning',
+          message: conflict.path.length ? `After ${conflict.path.join(' ')}: ${conflict.message}` : conflict.message,
+          fen: conflict.fen
+        })));
+        if (merged.conflicts.length) {
+          toast.warning(`Merged with ${merged.conflicts.length} conflict(s) – see the list below.`);
+        }
+      }
+      setDiagnostics(found);
       
-      if (parsedVariations.length === 0) {
-        toast.error("Couldn't find any play-able moves in this PGN.");
+      if (found.some(d => d.severity === 'error')) {
+        setBrokenLoad({ games, name: name || DEFAULT_DECK_NAME, pgn });
+        toast.error("Some moves could not be read. See the problems below.");
         return;
       }
       
-      setVariations(parsedVariations);
-      setDeckName(name || 'Untitled Deck');
-      console.log('Setting mode to variations');
-      setMode('variations');
+      toast.success(games.length > 1 ? `PGN loaded – ${games.length} games` : "PGN loaded!");
+      proceedWithGames(games, name || DEFAULT_DECK_NAME, pgn);
     } catch (error) {
+      if (controller.signal.aborted) return;
       console.error("Error parsing PGN:", error);
+      setDiagnostics(error instanceof PgnParseError ? error.diagnostics : []);
       toast.error("Failed to parse PGN. Please check the format.");
+    } finally {
+      // A newer upload owns the progress bar by now
+      if (parseAbortRef.current === controller) {
+        parseAbortRef.current = null;
+        setParseProgress(null);
+      }
     }
   };
 
+  const handleCancelParse = () => {
+    parseAbortRef.current?.abort();
+    toast.info("Loading cancelled");
+  };
+
+  const handleLoadAnyway = () => {
+    if (!brokenLoad) return;
+    
+    proceedWithGames(brokenLoad.games, brokenLoad.name, brokenLoad.pgn);
+    setBrokenLoad(null);
+  };
+
+  const handleChaptersSelected = (indexes: number[]) => {
+    if (!pendingGames) return;
+    
+    loadGames(indexes.map(i => pendingGames.games[i]), pendingGames.name, pendingGames.pgn)
+      .catch(error => console.error("Failed to save deck:", error));
+    setPendingGames(null);
+  };
+
+  const chapterTitles = useMemo(
+    () => pendingGames?.games.map((game, index) => gameTitle(game, index)),
+    [pendingGames]
+  );
+
+  const variations = useMemo(() => repertoire?.variations ?? [], [repertoire]);
+  const games = repertoire?.games ?? [];
+
+  // Due-today queues across every line of the deck, one card per position
+  const dueQueues = useMemo(() => {
+    const queueFor = (userColor: 'white' | 'black') =>
+      dueQueue(
+        variations.flatMap(v => createTrainingPositions(v, userColor, repertoire?.graph)),
+        cards
+      );
+    return { white: queueFor('white'), black: queueFor('black') };
+  }, [variations, repertoire, cards]);
+
+  const handlePositionGraded = (position: TrainingPosition, grade: ReviewGrade) => {
+    const now = Date.now();
+    const card = reviewCard(cards[position.key] ?? newCard(position.key, now), grade, now);
+    setCards(prev => ({ ...prev, [position.key]: card }));
+    
+    if (deckId) {
+      Promise.all([
+        saveCard(deckId, card),
+        addReview({ deckId, key: position.key, grade, reviewedAt: now })
+      ]).catch(error => console.error("Failed to save review:", error));
+    }
+  };
+
+  const mistakes = useMemo(() => openMistakes(attempts), [attempts]);
+
+  const handleMoveAttempt = (position: TrainingPosition, played: string, correct: boolean) => {
+    if (!deckId) return;
+    
+    const attempt: MoveAttempt = {
+      deckId,
+      key: position.key,
+      fen: position.fen,
+      variationId: position.variationId,
+      moveNumber: position.moveNumber,
+      expected: position.moveToMake,
+      played,
+      correct,
+      attemptedAt: Date.now()
+    };
+    setAttempts(prev => [...prev, attempt]);
+    addAttempt(attempt).catch(error => console.error("Failed to save move:", error));
+  };
+
+  const handleReviewMistakes = () => {
+    setReviewedMistakes(mistakes);
+    setMode('mistakes');
+  };
+
+  const handleDeleteDeck = async (id: string) => {
+    try {
+      await deleteDeck(id);
+      if (id === deckId) {
+        setDeckId(null);
+        await setSetting('lastDeckId', null);
+      }
+      refreshDecks();
+      toast.success("Deck deleted");
+    } catch (error) {
+      console.error("Failed to delete deck:", error);
+      toast.error("Couldn't delete the deck.");
+    }
+  };
+
+  const handleExportPGN = () => {
+    const blob = new Blob([serializeGames(games)], { type: 'application/x-chess-pgn' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${deckName || 'repertoire'}.pgn`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Edits from the tree explorer replace the deck's games and its PGN
+  const handleGamesEdited = (edited: ParsedGame[]) => {
+    setRepertoire(buildRepertoire(edited));
+    if (!deckId) return;
+    
+    getDeck(deckId)
+      .then(deck => deck && saveDeck({ ...deck, games: edited, pgn: serializeGames(edited), updatedAt: Date.now() }))
+      .catch(error => console.error("Failed to save the edited deck:", error));
+  };
+
+  const handleOpenLibrary = () => {
+    setPendingGames(null);
+    setMode('upload');
+    refreshDecks();
+  };
+
+  const handleStartReview = (userColor: 'white' | 'black') => {
+    const positions = dueQueues[userColor];
+    if (positions.length === 0) return;
+
+    // The queue mixes lines, so it is drilled as a pseudo-variation of its own
+    const variation: Variation = {
+      id: `review-${userColor}`,
+      name: `Due Today (${userColor})`,
+      moves: [],
+      nodes: [],
+      startFen: positions[0].fen,
+      mainline: false
+    };
+    setCurrentTraining({ variation, positions, userColor, isReview: true });
+    setMode('training');
+  };
+
   const handleStartTraining = (variationId: string, userColor: 'white' | 'black') => {
     const variation = variations.find(v => v.id === variationId);
     if (!variation) return;
 
-    const positions = createTrainingPositions(variation, userColor);
+    const positions = createTrainingPositions(variation, userColor, repertoire?.graph);
+    if (positions.length === 0) {
+      const shared = variation.sharedPlies?.some(ply => plyInfo(variation.startFen, ply).white === (userColor === 'white'));
+      toast.info(shared
+        ? `All ${userColor} moves of this line are trained in the line it transposes into.`
+        : `This line has no ${userColor} moves to train.`);
+      return;
+    }
     setCurrentTraining({ variation, positions, userColor });
     setMode('training');
   };
 
+  const handleStartDrill = (userColor: 'white' | 'black') => {
+    setDrillColor(userColor);
+    setMode('drill');
+  };
+
   const handleExitTraining = () => {
     setCurrentTraining(null);
     setMode('variations');
   };
 
   if (mode === 'upload') {
-    return <PGNUploader onPGNLoaded={handlePGNLoaded} />;
+    return (
+      <>
+        <PGNUploader
+          onPGNLoaded={handlePGNLoaded}
+          chapters={chapterTitles}
+          onChaptersSelected={handleChaptersSelected}
+          diagnostics={diagnostics}
+          onLoadAnyway={brokenLoad ? handleLoadAnyway : undefined}
+          progress={parseProgress}
+          onCancel={handleCancelParse}
+        />
+        <DeckLibrary
+          decks={decks}
+          onOpenDeck={(id) => openDeck(id).catch(error => {
+            console.error("Failed to open deck:", error);
+            toast.error("Couldn't open the deck.");
+          })}
+          onDeleteDeck={handleDeleteDeck}
+        />
+        <AlertDialog open={!!deckClash} onOpenChange={(open) => !open && setDeckClash(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Update "{deckClash?.deck.name}"?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {deckClash?.sameFile ? (
+                  <>
+                    This deck was loaded from the same file with other chapters. Update it to the
+                    chapters you picked and keep your progress, or keep both as separate decks.
+                  </>
+                ) : (
+                  <>
+                    You already have a deck with this name. If this file is a new version of it, update
+                    the deck and keep your progress. Otherwise keep both as separate decks.
+                  </>
+                )}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel onClick={() => handleDeckClash(false)}>Keep Both</AlertDialogCancel>
+              <AlertDialogAction onClick={() => handleDeckClash(true)}>Update Deck</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </>
+    );
   }
 
   if (mode === 'training' && currentTraining) {
@@ -64,7 +460,59 @@ const Index = () => {
         variation={currentTraining.variation}
         positions={currentTraining.positions}
         userColor={currentTraining.userColor}
+        graph={repertoire?.graph}
+        onExit={handleExitTraining}
+        startInTraining={currentTraining.isReview}
+        onPositionGraded={handlePositionGraded}
+        onMoveAttempt={handleMoveAttempt}
+      />
+    );
+  }
+
+  if (mode === 'mistakes') {
+    return (
+      <MistakeReview
+        mistakes={reviewedMistakes}
+        variationNames={Object.fromEntries(variations.map(v => [v.id, v.name]))}
+        onExit={() => setMode('variations')}
+        onMoveAttempt={handleMoveAttempt}
+      />
+    );
+  }
+
+  if (mode === 'stats') {
+    return (
+      <StatisticsPage
+        deckName={deckName}
+        attempts={attempts}
+        cards={cards}
+        variations={variations}
+        onExit={() => setMode('variations')}
+      />
+    );
+  }
+
+  if (mode === 'explore') {
+    return (
+      <RepertoireExplorer
+        games={games}
+        cards={cards}
+        onExit={() => setMode('variations')}
+        onGamesChange={handleGamesEdited}
+      />
+    );
+  }
+
+  if (mode === 'drill') {
+    return (
+      <RepertoireDrill
+        roots={games.map(game => game.root)}
+        userColor={drillColor}
+        graph={repertoire?.graph}
+        cards={cards}
         onExit={handleExitTraining}
+        onPositionGraded={handlePositionGraded}
+        onMoveAttempt={handleMoveAttempt}
       />
     );
   }
@@ -73,6 +521,27 @@ const Index = () => {
 
   return (
     <div className="container mx-auto p-6">
+      <div className="mb-4 flex justify-between">
+        <Button variant="outline" onClick={handleOpenLibrary}>
+          <Library className="w-4 h-4 mr-2" />
+          Deck Library
+        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setMode('explore')} disabled={games.length === 0}>
+            <ListTree className="w-4 h-4 mr-2" />
+            Explore Tree
+          </Button>
+          <Button variant="outline" onClick={() => setMode('stats')} disabled={!deckId}>
+            <BarChart3 className="w-4 h-4 mr-2" />
+            Statistics
+          </Button>
+          <Button variant="outline" onClick={handleExportPGN} disabled={games.length === 0}>
+            <Download className="w-4 h-4 mr-2" />
+            Export PGN
+          </Button>
+        </div>
+      </div>
+
       <div className="text-center mb-8">
         <h1 className="text-3xl font-bold mb-2">{deckName}</h1>
         <p className="text-muted-foreground">
@@ -80,11 +549,70 @@ const Index = () => {
         </p>
       </div>
 
+      {variations.length > 0 && (
+        <Card className="mb-6">
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <CalendarClock className="w-5 h-5" />
+              Due Today
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="flex flex-wrap gap-4">
+            {(['white', 'black'] as const).map(userColor => (
+              <Button
+                key={userColor}
+                variant={userColor === 'white' ? 'default' : 'secondary'}
+                disabled={dueQueues[userColor].length === 0}
+                onClick={() => handleStartReview(userColor)}
+              >
+                Review as {userColor} ({dueQueues[userColor].length})
+              </Button>
+            ))}
+            <Button
+              variant="outline"
+              disabled={mistakes.length === 0}
+              onClick={handleReviewMistakes}
+            >
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Review My Mistakes ({mistakes.length})
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {variations.length > 0 && (
+        <Card className="mb-6">
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <GitFork className="w-5 h-5" />
+              Whole Repertoire
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              Play from the start position while the opponent picks one of its repertoire branches.
+            </p>
+            <div className="flex flex-wrap gap-4">
+              {(['white', 'black'] as const).map(userColor => (
+                <Button
+                  key={userColor}
+                  variant="outline"
+                  onClick={() => handleStartDrill(userColor)}
+                >
+                  Drill as {userColor}
+                </Button>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {variations.map((variation) => (
           <VariationCard
             key={variation.id}
             variation={variation}
+            transposesInto={variations.find(v => v.id === variation.transposesTo?.variationId)?.name}
             onStartTraining={handleStartTraining}
           />
         ))}
@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { parseGamesInBackground } from "../backgroundParse";
+import { PgnParseError, parseGames } from "../parsePgnService";
+
+describe("backgroundParse", () => {
+  it("parses like parseGames and reports progress up to the last move", async () => {
+    const progress: number[][] = [];
+    const games = await parseGamesInBackground("1.e4 e5 (1...c5) 2.Nf3 *", {
+      onProgress: (done, total) => progress.push([done, total]),
+    });
+
+    expect(games).toEqual(parseGames("1.e4 e5 (1...c5) 2.Nf3 *"));
+    expect(progress[0]).toEqual([0, 4]);
+    expect(progress[progress.length - 1]).toEqual([4, 4]);
+  });
+
+  it("rejects with the parser's errors", async () => {
+    await expect(parseGamesInBackground("1.e4 e5 2.Ke3 *", { strict: true })).rejects.toBeInstanceOf(PgnParseError);
+  });
+
+  it("rejects right away when already cancelled", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(parseGamesInBackground("1.e4 *", { signal: controller.signal })).rejects.toMatchObject({
+      name: "AbortError",
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import "fake-indexeddb/auto";
+import { IDBFactory } from "fake-indexeddb";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { parseGames } from "../parsePgnService";
+import { hashString } from "../contentId";
+import { newCard } from "../scheduler";
+import type * as DeckStorage from "../deckStorage";
+
+const PGN = "1.e4 e5 (1...c5 2.Nf3) 2.Nf3 *";
+
+let storage: typeof DeckStorage;
+
+const deck = (id = "deck-1"): DeckStorage.StoredDeck => ({
+  id,
+  name: "Open Games",
+  pgn: PGN,
+  games: parseGames(PGN),
+  createdAt: 1,
+  updatedAt: 2,
+});
+
+const attempt = (deckId: string, attemptedAt: number): DeckStorage.MoveAttempt => ({
+  deckId,
+  key: "k",
+  fen: "f",
+  moveNumber: 1,
+  expected: "e4",
+  played: "d4",
+  correct: false,
+  attemptedAt,
+});
+
+/** Create the database as an older version of the app left it. */
+function createOldDb(version: 1 | 2, stored: DeckStorage.StoredDeck): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open("pgn-branch-buddy", version);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore("decks", { keyPath: "id" }).put(stored);
+      db.createObjectStore("cards", { keyPath: ["deckId", "key"] }).createIndex("deckId", "deckId");
+      db.createObjectStore("reviews", { keyPath: "id", autoIncrement: true }).createIndex("deckId", "deckId");
+      db.createObjectStore("settings");
+      if (version === 2) {
+        db.createObjectStore("attempts", { keyPath: "id", autoIncrement: true }).createIndex("deckId", "deckId");
+      }
+    };
+    request.onsuccess = () => {
+      request.result.close();
+      resolve();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+describe("deckStorage", () => {
+  // A fresh database and a fresh module (it caches the connection) per test
+  beforeEach(async () => {
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+    storage = await import("../deckStorage");
+  });
+
+  afterEach(() => vi.restoreAllMocks());
+
+  it("saves and loads a deck, and lists it without its games", async () => {
+    await storage.saveDeck(deck());
+
+    expect(await storage.getDeck("deck-1")).toEqual(deck());
+    expect(await storage.getDeck("missing")).toBeUndefined();
+    expect(await storage.listDecks()).toEqual([{
+      id: "deck-1",
+      name: "Open Games",
+      chapters: 1,
+      pgnHash: hashString(PGN),
+      createdAt: 1,
+      updatedAt: 2,
+    }]);
+  });
+
+  it("lists decks most recently used first", async () => {
+    await storage.saveDeck({ ...deck("old"), updatedAt: 5 });
+    await storage.saveDeck({ ...deck("new"), updatedAt: 9 });
+    expect((await storage.listDecks()).map(d => d.id)).toEqual(["new", "old"]);
+  });
+
+  it("records cards, reviews and attempts per deck", async () => {
+    await storage.saveCard("deck-1", newCard("k", 0));
+    await storage.saveCard("deck-2", newCard("other", 0));
+    await storage.addReview({ deckId: "deck-1", key: "k", grade: "good", reviewedAt: 20 });
+    await storage.addReview({ deckId: "deck-1", key: "k", grade: "again", reviewedAt: 10 });
+    await storage.addAttempt(attempt("deck-1", 30));
+    await storage.addAttempt(attempt("deck-1", 15));
+
+    expect(Object.keys(await storage.loadCards("deck-1"))).toEqual(["k"]);
+    expect((await storage.listReviews("deck-1")).map(r => r.grade)).toEqual(["again", "good"]);
+    expect((await storage.listAttempts("deck-1")).map(a => a.attemptedAt)).toEqual([15, 30]);
+    expect(await storage.listAttempts("deck-2")).toEqual([]);
+  });
+
+  it("deletes a deck with its cards and history, leaving other decks alone", async () => {
+    await storage.saveDeck(deck("deck-1"));
+    await storage.saveDeck(deck("deck-2"));
+    for (const id of ["deck-1", "deck-2"]) {
+      await storage.saveCard(id, newCard("k", 0));
+      await storage.addReview({ deckId: id, key: "k", grade: "good", reviewedAt: 1 });
+      await storage.addAttempt(attempt(id, 1));
+    }
+
+    await storage.deleteDeck("deck-1");
+
+    expect(await storage.getDeck("deck-1")).toBeUndefined();
+    expect(await storage.loadCards("deck-1")).toEqual({});
+    expect(await storage.listReviews("deck-1")).toEqual([]);
+    expect(await storage.listAttempts("deck-1")).toEqual([]);
+    expect((await storage.listDecks()).map(d => d.id)).toEqual(["deck-2"]);
+    expect(await storage.listAttempts("deck-2")).toHaveLength(1);
+  });
+
+  it("rejects when the delete transaction is aborted", async () => {
+    await storage.saveDeck(deck());
+    const transaction = IDBDatabase.prototype.transaction;
+    vi.spyOn(IDBDatabase.prototype, "transaction").mockImplementation(function (this: IDBDatabase, ...args) {
+      const tx = transaction.apply(this, args);
+      Promise.resolve().then(() => tx.abort());
+      return tx;
+    });
+
+    await expect(storage.deleteDeck("deck-1")).rejects.toMatchObject({ name: "AbortError" });
+  });
+
+  it("keeps settings", async () => {
+    expect(await storage.getSetting("lastDeckId", null)).toBeNull();
+    await storage.setSetting("lastDeckId", "deck-1");
+    expect(await storage.getSetting("lastDeckId", null)).toBe("deck-1");
+  });
+
+  it("upgrades a version 1 database: adds the attempt log and splits the decks", async () => {
+    await createOldDb(1, deck());
+
+    expect(await storage.getDeck("deck-1")).toEqual(deck());
+    expect((await storage.listDecks())[0]).toMatchObject({ id: "deck-1", chapters: 1 });
+    await storage.addAttempt(attempt("deck-1", 1));
+    expect(await storage.listAttempts("deck-1")).toHaveLength(1);
+  });
+
+  it("upgrades a version 2 database without losing decks", async () => {
+    await createOldDb(2, deck());
+
+    expect(await storage.getDeck("deck-1")).toEqual(deck());
+    expect(await storage.listDecks()).toEqual([expect.objectContaining({ pgnHash: hashString(PGN) })]);
+    expect(await storage.listDecks()).not.toEqual([expect.objectContaining({ games: expect.anything() })]);
+  });
+});
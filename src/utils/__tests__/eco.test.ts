@@ -0,0 +1,19 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_POSITION } from "chess.js";
+import { classifyOpening } from "../eco";
+
+describe("eco", () => {
+  it("returns the deepest named opening along the line", () => {
+    const moves = ["e4", "e5", "Nf3", "Nc6", "Bb5", "a6", "Ba4", "Nf6", "O-O", "Be7", "d3"];
+    expect(classifyOpening(DEFAULT_POSITION, moves)).toEqual({ eco: "C84", name: "Ruy Lopez: Closed" });
+  });
+
+  it("recognises openings reached by transposition", () => {
+    // Queen's Gambit Declined via the English
+    expect(classifyOpening(DEFAULT_POSITION, ["c4", "e6", "d4", "d5"])?.eco).toBe("D30");
+  });
+
+  it("returns nothing for unnamed positions", () => {
+    expect(classifyOpening("4k3/8/8/8/8/8/8/4K3 w - - 0 1", ["Kd2"])).toBeUndefined();
+  });
+});
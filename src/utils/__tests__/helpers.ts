@@ -0,0 +1,7 @@
+// Shared helpers for the utils tests.
+
+import { Node } from "../parsePgnService";
+import { serializeGame } from "../serializePgn";
+
+/** Move text only, without the tag section. */
+export const movetext = (root: Node) => serializeGame(root).trim().split("\n\n").pop();
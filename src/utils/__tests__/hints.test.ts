@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { parseGame } from "../parsePgnService";
+import { extractVariationsFromTree, createTrainingPositions } from "../repertoire";
+import { hintSteps, buildHint, hintedGrade } from "../hints";
+
+const PGN = "1.e4 e5 2.Nf3 {Attacks e5} Nc6 3.Bb5 *";
+
+const positions = () => createTrainingPositions(extractVariationsFromTree(parseGame(PGN))[0], "white");
+
+describe("hints", () => {
+  it("escalates from the piece to the full move", () => {
+    const nf3 = positions()[1];
+    expect(hintSteps(nf3)).toEqual(["piece", "square", "comment", "answer"]);
+
+    expect(buildHint(nf3, 1)).toEqual({
+      highlights: [{ square: "g1", color: "yellow" }],
+      arrows: [],
+      lines: ["Move your knight on g1."],
+    });
+    expect(buildHint(nf3, 3).lines).toEqual(["Move your knight on g1.", "It goes to f3.", "Attacks e5"]);
+    expect(buildHint(nf3, 4)).toMatchObject({
+      highlights: [],
+      arrows: [{ from: "g1", to: "f3", color: "green" }],
+    });
+  });
+
+  it("skips the comment step for moves without a comment", () => {
+    expect(hintSteps(positions()[2])).toEqual(["piece", "square", "answer"]);
+  });
+
+  it("lowers the grade with the hints used", () => {
+    const nf3 = positions()[1];
+    expect(hintedGrade(nf3, "good", 0)).toBe("good");
+    expect(hintedGrade(nf3, "good", 3)).toBe("hard");
+    expect(hintedGrade(nf3, "good", 4)).toBe("again");
+    expect(hintedGrade(nf3, "again", 1)).toBe("again");
+  });
+});
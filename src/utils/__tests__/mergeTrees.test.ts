@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { parseGame, parseGames } from "../parsePgnService";
+import { movetext } from "./helpers";
+import { mergeTrees, mergeGames } from "../mergeTrees";
+
+describe("mergeTrees", () => {
+  it("unions trees and de-duplicates identical moves", () => {
+    const open = parseGame("1.e4 e5 2.Nf3 Nc6 *");
+    const sicilian = parseGame("1.e4 c5 2.Nf3 d6 *");
+    const { root, conflicts } = mergeTrees([open, sicilian]);
+
+    expect(movetext(root)).toBe("1. e4 e5 (1... c5 2. Nf3 d6) 2. Nf3 Nc6 *");
+    expect(root.children).toHaveLength(1);
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ path: ["e4"], message: expect.stringContaining("keeping e5") });
+  });
+
+  it("merges comments and annotations of shared moves", () => {
+    const a = parseGame("1.e4 {Best by test} $1 e5 *");
+    const b = parseGame("1.e4 {Fights for the centre} e5 $2 *");
+    const { root } = mergeTrees([a, b]);
+
+    expect(root.children[0].commentAfter).toBe("Best by test Fights for the centre");
+    expect(root.children[0].nags).toEqual(["$1"]);
+    expect(root.children[0].children[0].nags).toEqual(["$2"]);
+    expect(mergeTrees([a, a]).root.children[0].commentAfter).toBe("Best by test");
+  });
+
+  it("reports contradicting move assessments", () => {
+    const { conflicts } = mergeTrees([parseGame("1.e4 $1 *"), parseGame("1.e4 $2 *")]);
+    expect(conflicts[0].message).toBe("e4 is assessed differently ($1 vs $2)");
+  });
+
+  it("only merges games that share a start position", () => {
+    const games = parseGames('1.e4 *\n\n1.d4 *\n\n[SetUp "1"]\n[FEN "4k3/8/8/8/8/8/8/4K3 w - - 0 1"]\n\n1.Kd2 *');
+    const merged = mergeGames(games);
+
+    expect(merged.games).toHaveLength(2);
+    expect(merged.games[0].root.children.map(c => c.move)).toEqual(["e4", "d4"]);
+    expect(() => mergeTrees(games.map(g => g.root))).toThrow();
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { openMistakes, advanceQueue, mistakePosition } from "../mistakes";
+import { MoveAttempt } from "../deckStorage";
+
+let clock = 0;
+const attempt = (key: string, correct: boolean, played = correct ? "e4" : "d4"): MoveAttempt => ({
+  deckId: "deck",
+  key,
+  fen: `${key} w`,
+  moveNumber: 1,
+  expected: "e4",
+  played,
+  correct,
+  attemptedAt: ++clock,
+});
+
+describe("mistakes", () => {
+  it("keeps a position open until it is answered correctly enough times in a row", () => {
+    const log = [attempt("a", false), attempt("a", true), attempt("a", true)];
+    expect(openMistakes(log, 3).map(m => [m.key, m.streak])).toEqual([["a", 2]]);
+    expect(openMistakes([...log, attempt("a", true)], 3)).toEqual([]);
+  });
+
+  it("restarts the streak and records the latest wrong move on a new miss", () => {
+    const mistakes = openMistakes([
+      attempt("a", false, "d4"),
+      attempt("b", false),
+      attempt("a", true),
+      attempt("a", false, "c4"),
+      attempt("c", true),
+    ]);
+    expect(mistakes.map(m => m.key)).toEqual(["b", "a"]);
+    expect(mistakes[1]).toMatchObject({ played: "c4", streak: 0 });
+    expect(mistakePosition(mistakes[1])).toMatchObject({ key: "a", moveToMake: "e4" });
+  });
+
+  it("requeues the answered mistake until its streak is complete", () => {
+    let queue = openMistakes([attempt("a", false), attempt("b", false)]);
+    queue = advanceQueue(queue, true, 2);
+    expect(queue.map(m => [m.key, m.streak])).toEqual([["b", 0], ["a", 1]]);
+    queue = advanceQueue(queue, false, 2);
+    expect(queue.map(m => [m.key, m.streak])).toEqual([["a", 1], ["b", 0]]);
+    queue = advanceQueue(queue, true, 2);
+    expect(queue.map(m => m.key)).toEqual(["b"]);
+  });
+});
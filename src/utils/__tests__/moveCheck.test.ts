@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { parseGames } from "../parsePgnService";
+import { buildRepertoireGraph } from "../repertoireGraph";
+import { extractVariationsFromTree, createTrainingPositions } from "../repertoire";
+import { checkMove } from "../moveCheck";
+
+// 3.Nf3 is a side line; 1.Nf3 d5 2.d4 is reached by 1.d4 d5 2.Nf3 as well
+const PGN = `1.d4 d5 2.c4 e6 3.Nc3 (3.Nf3) *
+
+1.Nf3 d5 2.d4 *`;
+
+const setup = () => {
+  const games = parseGames(PGN);
+  const graph = buildRepertoireGraph(games.map(game => game.root));
+  const [main] = extractVariationsFromTree(games[0].root);
+  return { graph, positions: createTrainingPositions(main, "white", graph) };
+};
+
+describe("moveCheck", () => {
+  it("accepts the main move", () => {
+    const { graph, positions } = setup();
+    expect(checkMove(positions[1], "c4", graph)).toEqual({ verdict: "main" });
+  });
+
+  it("recognises side lines the user also plays", () => {
+    const { graph, positions } = setup();
+    expect(checkMove(positions[2], "Nf3", graph)).toEqual({
+      verdict: "alternative",
+      message: "Nf3 is also in your repertoire, but the main move is Nc3",
+    });
+  });
+
+  it("recognises move orders that transpose into the repertoire", () => {
+    const { graph, positions } = setup();
+    expect(checkMove(positions[1], "Nf3", graph).verdict).toBe("transposition");
+  });
+
+  it("rejects other moves, and everything but the main move without a graph", () => {
+    const { graph, positions } = setup();
+    expect(checkMove(positions[1], "e4", graph).verdict).toBe("wrong");
+    expect(checkMove(positions[2], "Nf3").verdict).toBe("wrong");
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Chess } from "chess.js";
+import { Node, parseGames } from "../parsePgnService";
+import { serializeGame } from "../serializePgn";
+
+/**
+ * Grow a deterministic, RAV-heavy tree: a main line of `plies` moves with
+ * `branching` alternatives at every ply, each continued for `subPlies`
+ * moves and branching again down to `nesting` levels.
+ */
+function grow(board: Chess, parent: Node, plies: number, branching: number, nesting: number, subPlies: number): number {
+  let count = 0;
+  let played = 0;
+
+  for (let i = 0; i < plies; i++) {
+    const moves = board.moves();
+    if (moves.length === 0) break;
+
+    const fen = board.fen();
+    const main: Node = { fen, move: moves[(i * 7) % moves.length], children: [] };
+    parent.children.push(main);
+    count++;
+
+    for (let b = 1; nesting > 0 && b <= branching; b++) {
+      const alternative = moves[(i * 7 + b * 3) % moves.length];
+      if (parent.children.some(child => child.move === alternative)) continue;
+
+      const node: Node = { fen, move: alternative, children: [] };
+      parent.children.push(node);
+      board.move(alternative);
+      count += 1 + grow(board, node, subPlies, branching, nesting - 1, subPlies);
+      board.undo();
+    }
+
+    board.move(main.move);
+    played++;
+    parent = main;
+  }
+
+  for (let i = 0; i < played; i++) board.undo();
+  return count;
+}
+
+const countNodes = (node: Node): number => node.children.reduce((sum, child) => sum + 1 + countNodes(child), 0);
+// Moves followed by RAVs: the main move of every node with alternatives
+const branchPoints = (node: Node): number =>
+  (node.children.length > 1 ? 1 : 0) + node.children.reduce((sum, child) => sum + branchPoints(child), 0);
+
+// Generous enough for slow CI machines – meant to catch an accidental
+// quadratic step, not small regressions.
+const TIME_BUDGET_MS = 30_000;
+const CHAPTERS = 20;
+
+describe("parsePgnService performance", () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it("parses an 18k-move study full of variations within the time budget", () => {
+    // Growing the tree is slower than parsing it, so one chapter is grown
+    // and the study repeats it
+    const board = new Chess();
+    const root: Node = { fen: board.fen(), move: "", children: [] };
+    const moves = grow(board, root, 16, 2, 2, 3);
+    const chapter = serializeGame(root);
+    const pgn = Array.from({ length: CHAPTERS }, () => chapter).join("\n");
+    expect(moves * CHAPTERS).toBeGreaterThan(18_000);
+
+    const start = performance.now();
+    const games = parseGames(pgn);
+    const elapsed = performance.now() - start;
+
+    expect(games).toHaveLength(CHAPTERS);
+    for (const game of games) {
+      expect(game.diagnostics).toEqual([]);
+      expect(serializeGame(game.root)).toBe(chapter);
+    }
+    expect(elapsed).toBeLessThan(TIME_BUDGET_MS);
+  }, 120_000);
+
+  it("walks the variations with move and undo on a single board", () => {
+    const board = new Chess();
+    const root: Node = { fen: board.fen(), move: "", children: [] };
+    const moves = grow(board, root, 12, 2, 2, 2);
+    const pgn = serializeGame(root);
+
+    const move = vi.spyOn(Chess.prototype, "move");
+    const undo = vi.spyOn(Chess.prototype, "undo");
+    const load = vi.spyOn(Chess.prototype, "load");
+    const [game] = parseGames(pgn);
+
+    // Every move is played once, plus once more after the RAVs that replace
+    // it; every move played is taken back again. The board is set up once
+    // (the constructor loads too) and never jumps to another position.
+    expect(move).toHaveBeenCalledTimes(moves + branchPoints(root));
+    expect(undo).toHaveBeenCalledTimes(moves + branchPoints(root));
+    expect(load).toHaveBeenCalledTimes(2);
+
+    expect(countNodes(game.root)).toBe(moves);
+    expect(serializeGame(game.root)).toBe(pgn);
+  });
+});
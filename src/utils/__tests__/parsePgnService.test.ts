@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { parseGame } from "../parsePgnService";
+import { parseGame, parseGames, gameTitle, nagGlyph, sameSan, PgnParseError } from "../parsePgnService";
 
 describe("parsePgnService", () => {
   it("separates variations", () => {
@@ -14,8 +14,8 @@ describe("parsePgnService", () => {
     expect(root.children[0].children[0].move).toBe("e5");
   });
 
-  it("throws on illegal moves", () => {
-    expect(() => parseGame("1.e4 e5 2.Qh5 Qxe4")).toThrow("Illegal SAN detected");
+  it("throws on illegal moves in strict mode", () => {
+    expect(() => parseGame("1.e4 e5 2.Qh5 Qxe4", { strict: true })).toThrow("Illegal SAN detected");
   });
 
   it("parses a game that ends in 1-0", () => {
@@ -38,4 +38,135 @@ describe("parsePgnService", () => {
     const root = parseGame(txt);           // should NOT throw
     expect(root.children[0].move).toBe("e4");
   });
-});
\ No newline at end of file
+
+  it("parses every game of a multi-game PGN", () => {
+    const study = [
+      '[Event "Repertoire: Najdorf"]\n[ChapterName "Najdorf"]\n\n1.e4 c5 2.Nf3 d6 *',
+      '[Event "Repertoire: French"]\n\n1.e4 e6 2.d4 d5 *',
+      '[Event "?"]\n[White "?"]\n[Black "?"]\n\n1.d4 d5 *',
+    ].join("\n\n");
+    const games = parseGames(study);
+    expect(games).toHaveLength(3);
+    expect(games[1].headers.Event).toBe("Repertoire: French");
+    expect(games[1].root.children[0].children[0].move).toBe("e6");
+    expect(games.map((g, i) => gameTitle(g, i))).toEqual([
+      "Najdorf",
+      "Repertoire: French",
+      "Chapter 3",
+    ]);
+  });
+
+  it("parseGame still returns the first game only", () => {
+    const root = parseGame("1.e4 e5 *\n\n1.d4 d5 *");
+    expect(root.children[0].move).toBe("e4");
+  });
+
+  it("keeps comments, NAGs and annotation commands on the nodes", () => {
+    const root = parseGame(
+      "{Intro} 1.e4 {Best by test [%cal Ge2e4] [%clk 0:05:00]} $1 1...c5 ({Solid} 1...e6) 2.Nf3!? *"
+    );
+    const e4 = root.children[0];
+    expect(root.commentAfter).toBe("Intro");
+    expect(e4.commentAfter).toBe("Best by test");
+    expect(e4.nags).toEqual(["$1"]);
+    expect(e4.commands).toEqual({ cal: "Ge2e4", clk: "0:05:00" });
+    expect(e4.children[1].commentBefore).toBe("Solid");
+    expect(e4.children[0].children[0].nags?.map(nagGlyph)).toEqual(["!?"]);
+  });
+
+  it("does not treat move numbers inside a closed comment as moves", () => {
+    const root = parseGame("1.e4 {see 5. d4 later} e5 2.Nf3 *");
+    expect(root.children[0].commentAfter).toBe("see 5. d4 later");
+    expect(root.children[0].children[0].move).toBe("e5");
+  });
+
+  it("starts the tree from the FEN header of a set-up position", () => {
+    const fen = "4k3/8/4K3/4P3/8/8/8/8 b - - 0 40";
+    const root = parseGame(`[SetUp "1"]\n[FEN "${fen}"]\n\n40... Kd8 41.Kf7 *`);
+    expect(root.fen).toBe(fen);
+    expect(root.children[0].move).toBe("Kd8");
+    expect(root.children[0].children[0].move).toBe("Kf7");
+  });
+
+  it("turns [%cal] and [%csl] commands into arrows and highlights", () => {
+    const root = parseGame("1.e4 {[%cal Ge2e4,Rd2d4,Xa1a2] [%csl Yd5]} e5 *");
+    expect(root.children[0].arrows).toEqual([
+      { color: "green", from: "e2", to: "e4" },
+      { color: "red", from: "d2", to: "d4" },
+    ]);
+    expect(root.children[0].highlights).toEqual([{ color: "yellow", square: "d5" }]);
+  });
+
+  it("reports skipped illegal moves with their line and column", () => {
+    const [game] = parseGames('[Event "x"]\n\n1.e4 e5\n2.Qh5 Qxe4 (2...Nc6) *');
+    expect(game.diagnostics).toEqual([
+      {
+        severity: "error",
+        message: 'Illegal move "Qxe4" – skipped',
+        token: "Qxe4",
+        fen: "rnbqkbnr/pppp1ppp/8/4p2Q/4P3/8/PPPP1PPP/RNB1KBNR b KQkq - 1 2",
+        game: 0,
+        line: 4,
+        column: 7,
+      },
+    ]);
+    // the variation of the bad move is an alternative to it and survives
+    expect(game.root.children[0].children[0].children[0].children[0].move).toBe("Nc6");
+  });
+
+  it("locates unterminated comments and syntax errors", () => {
+    const [game] = parseGames("1.e4 e5\n2.Nf3 {oops 2... Nc6 *");
+    expect(game.diagnostics[0]).toMatchObject({ severity: "warning", line: 2, column: 7 });
+
+    try {
+      parseGames("1.e4 e5\n2.Nf3 Nc6 3.Bxx *");
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(PgnParseError);
+      expect((err as PgnParseError).diagnostics[0]).toMatchObject({ line: 2, column: 15, token: "x" });
+    }
+  });
+
+  it("reports problems against the game they occur in", () => {
+    const [first, second] = parseGames("1.e4 e5 *\n\n1.d4 {oops 1... d5 2.c4 *");
+    expect(first.diagnostics).toEqual([]);
+    expect(second.diagnostics).toEqual([expect.objectContaining({ game: 1, line: 3, column: 6, token: "{" })]);
+
+    try {
+      parseGames("1.e4 e5 *\n\n1.d4 d5 2.Bxx *");
+      expect.unreachable();
+    } catch (err) {
+      expect((err as PgnParseError).diagnostics[0]).toMatchObject({ game: 1, line: 3 });
+    }
+  });
+
+  it("keeps line numbers when NAGs are moved before a comment", () => {
+    const [game] = parseGames("1.e4 {good}\n$1 e5\n2.Qh5 Qxe4 *");
+    expect(game.root.children[0].nags).toEqual(["$1"]);
+    expect(game.diagnostics[0]).toMatchObject({ token: "Qxe4", line: 3, column: 7 });
+  });
+
+  it("stores the full SAN of underpromotions", () => {
+    const root = parseGame('[SetUp "1"]\n[FEN "4k3/8/8/8/8/8/4p2K/5B2 b - - 0 1"]\n\n1... exf1=N *');
+    expect(root.children[0].move).toBe("exf1=N+");
+    expect(sameSan("exf1=N+", "exf1=N")).toBe(true);
+    expect(sameSan("exf1=Q", "exf1=N+")).toBe(false);
+  });
+
+  it("builds repeated games and nested variations from the right positions", () => {
+    const pgn = "1.e4 e5 (1...c5 2.Nf3 (2.Nc3 Nc6) 2...d6) 2.Nf3 Ke7?? 3.Kxe8 *";
+    const [first, second] = parseGames(`${pgn}\n\n${pgn}`);
+
+    expect(second.root).toEqual(first.root);
+    expect(second.root.children[0]).not.toBe(first.root.children[0]);
+    // The illegal move is reported for both games, although it is only tried once
+    expect(second.diagnostics).toHaveLength(1);
+    expect(second.diagnostics[0]).toMatchObject({ token: "Kxe8", game: 1 });
+
+    const c5 = first.root.children[0].children[1];
+    expect(c5.children.map(n => n.move)).toEqual(["Nf3", "Nc3"]);
+    expect(c5.children[1].fen).toBe(c5.children[0].fen);
+    expect(c5.children[0].children[0].move).toBe("d6");
+    expect(c5.children[1].children[0].move).toBe("Nc6");
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import { parseGame, parseGames } from "../parsePgnService";
+import {
+  buildRepertoire,
+  extractVariationsFromTree,
+  extractVariationsFromGames,
+  createTrainingPositions,
+  plyInfo,
+} from "../repertoire";
+
+describe("repertoire", () => {
+  it("flattens the main line and every side line", () => {
+    const variations = extractVariationsFromTree(parseGame("1.e4 e5 (1...c5 2.Nf3) 2.Nf3 Nc6 *"));
+    expect(variations.map(v => v.moves)).toEqual([
+      ["e4", "e5", "Nf3", "Nc6"],
+      ["e4", "c5", "Nf3"],
+    ]);
+    expect(variations[0].mainline).toBe(true);
+  });
+
+  it("extracts side lines nested inside other side lines", () => {
+    const variations = extractVariationsFromTree(parseGame("1.e4 e5 (1...c5 2.Nf3 (2.Nc3 Nc6) 2...d6) 2.Nf3 *"));
+    expect(variations.map(v => v.moves)).toEqual([
+      ["e4", "e5", "Nf3"],
+      ["e4", "c5", "Nf3", "d6"],
+      ["e4", "c5", "Nc3", "Nc6"],
+    ]);
+    expect(variations[2].name).toBe("after 1...c5: 2.Nc3 Nc6");
+    expect(createTrainingPositions(variations[2], "white").map(p => p.moveToMake)).toEqual(["e4", "Nc3"]);
+  });
+
+  it("numbers plies from the start position", () => {
+    expect(plyInfo("4k3/8/4K3/4P3/8/8/8/8 b - - 0 40", 0)).toEqual({ moveNumber: 40, white: false });
+    expect(plyInfo("4k3/8/4K3/4P3/8/8/8/8 b - - 0 40", 1)).toEqual({ moveNumber: 41, white: true });
+  });
+
+  it("creates training positions from a set-up FEN", () => {
+    const fen = "4k3/8/4K3/4P3/8/8/8/8 b - - 0 40";
+    const root = parseGame(`[SetUp "1"]\n[FEN "${fen}"]\n\n40... Kd8 41.Kf7 Kd7 42.e6+ *`);
+    const [mainLine] = extractVariationsFromTree(root);
+
+    const whitePositions = createTrainingPositions(mainLine, "white");
+    expect(whitePositions.map(p => p.moveToMake)).toEqual(["Kf7", "e6+"]);
+    expect(whitePositions[0]).toMatchObject({
+      description: "Move 41: Play Kf7",
+      moveNumber: 41,
+      variationId: mainLine.id,
+    });
+
+    const blackPositions = createTrainingPositions(mainLine, "black");
+    expect(blackPositions[0].fen).toBe(fen);
+    expect(blackPositions[0].responseMove).toBe("Kf7");
+  });
+
+  it("derives variation ids from the moves, not from their order", () => {
+    const before = extractVariationsFromTree(parseGame("1.e4 e5 (1...c5 2.Nf3) 2.Nf3 *"));
+    const after = extractVariationsFromTree(parseGame("1.e4 e5 (1...e6 2.d4) (1...c5 2.Nf3) 2.Nf3 *"));
+    const sicilian = (vs: typeof before) => vs.find(v => v.moves[1] === "c5")?.id;
+
+    expect(sicilian(after)).toBe(sicilian(before));
+    expect(after[0].id).toBe(before[0].id);
+  });
+
+  it("keeps ids unique when two chapters contain the same line", () => {
+    const variations = extractVariationsFromGames(parseGames("1.e4 e5 *\n\n1.e4 e5 *"));
+    expect(new Set(variations.map(v => v.id)).size).toBe(2);
+  });
+
+  it("builds lines and one transposition graph across all chapters", () => {
+    const games = parseGames("1.d4 Nf6 2.c4 e6 *\n\n1.c4 e6 2.d4 Nf6 3.Nc3 *");
+    const repertoire = buildRepertoire(games);
+
+    expect(repertoire.games).toBe(games);
+    expect(repertoire.variations.map(v => v.chapter)).toEqual(["Chapter 1", "Chapter 2"]);
+    expect(repertoire.variations[1].transposesTo).toEqual({ variationId: repertoire.variations[0].id, ply: 3 });
+    expect(repertoire.graph.roots).toHaveLength(2);
+
+    const [nf6] = createTrainingPositions(repertoire.variations[1], "black", repertoire.graph).slice(-1);
+    expect(nf6).toMatchObject({ moveToMake: "Nf6", moveNumber: 2 });
+    expect(nf6.otherPaths).toBeUndefined();
+  });
+
+  it("names side lines after their branch point and classifies the opening", () => {
+    const najdorf = "1.e4 c5 2.Nf3 d6 3.d4 cxd4 4.Nxd4 Nf6 5.Nc3 a6 6.Bg5 (6.Be3 e5 7.Nb3 Be6 8.f3) 6...e6 *";
+    const [mainLine, englishAttack] = extractVariationsFromTree(parseGame(najdorf));
+
+    expect(mainLine.name).toBe("Main Line");
+    expect(mainLine.opening).toEqual({ eco: "B94", name: "Sicilian Defense: Najdorf, Main Line" });
+    expect(englishAttack.name).toBe("after 5...a6: 6.Be3 e5 7.Nb3");
+    expect(englishAttack.opening).toEqual({ eco: "B90", name: "Sicilian Defense: Najdorf, English Attack" });
+
+    const [, scandinavian] = extractVariationsFromTree(parseGame("1.e4 e5 (1...d5 2.exd5) *"));
+    expect(scandinavian.name).toBe("after 1.e4: 1...d5 2.exd5");
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { parseGame } from "../parsePgnService";
+import { positionKey } from "../repertoireGraph";
+import { newCard } from "../scheduler";
+import { drillPosition, dueCount, fenAfter, pickBranch } from "../repertoireDrill";
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date(2024, 0, 1, 12).getTime();
+
+// White repertoire: 1.e4 against 1...c5 (2.Nf3 d6 3.d4) and 1...e5 (2.Nf3)
+const PGN = "1.e4 c5 (1...e5 2.Nf3) 2.Nf3 d6 3.d4 *";
+
+describe("repertoireDrill", () => {
+  it("asks for the main move only when it is the user's turn", () => {
+    const root = parseGame(PGN);
+
+    expect(drillPosition(root, "white")?.moveToMake).toBe("e4");
+    expect(drillPosition(root, "black")).toBeUndefined();
+    expect(drillPosition(root.children[0].children[0], "white")).toMatchObject({
+      moveToMake: "Nf3",
+      description: "Move 2: Play Nf3"
+    });
+  });
+
+  it("computes the position after a move", () => {
+    const root = parseGame(PGN);
+    const e5 = root.children[0].children[1];
+    expect(fenAfter(root)).toBe(root.fen);
+    expect(fenAfter(e5)).toBe(e5.children[0].fen);
+  });
+
+  it("counts due and new user positions per branch", () => {
+    const root = parseGame(PGN);
+    const [sicilian, openGame] = root.children[0].children;
+    const learned = { ...newCard(positionKey(sicilian.children[0].fen)), due: NOW + 3 * DAY };
+
+    expect(dueCount(sicilian, "white", {}, NOW)).toBe(2);
+    expect(dueCount(sicilian, "white", { [learned.key]: learned }, NOW)).toBe(1);
+    expect(dueCount(openGame, "white", {}, NOW)).toBe(1);
+  });
+
+  it("prefers branches with more due positions", () => {
+    const root = parseGame(PGN);
+    const [sicilian, openGame] = root.children[0].children;
+    const options = { strategy: "due" as const, cards: {}, now: NOW };
+
+    // weights 2:1 – the first two thirds of the range pick the Sicilian
+    expect(pickBranch([sicilian, openGame], "white", { ...options, random: () => 0.6 })).toBe(sicilian);
+    expect(pickBranch([sicilian, openGame], "white", { ...options, random: () => 0.7 })).toBe(openGame);
+    expect(pickBranch([sicilian, openGame], "white", { ...options, strategy: "random", random: () => 0.6 }))
+      .toBe(openGame);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { parseGame } from "../parsePgnService";
+import { buildRepertoireGraph, positionKey } from "../repertoireGraph";
+import { extractVariationsFromTree, createTrainingPositions } from "../repertoire";
+
+const PGN = "1.d4 (1.c4 e6 2.d4 Nf6 3.Nf3 d5) 1...Nf6 2.c4 e6 3.Nc3 (3.Nf3 b6) 3...Bb4 *";
+
+describe("repertoireGraph", () => {
+  it("ignores the move counters in position keys", () => {
+    expect(positionKey("8/8/8/8/8/8/8/K6k w - - 12 40")).toBe("8/8/8/8/8/8/8/K6k w - -");
+  });
+
+  it("merges transposed positions into one vertex", () => {
+    const graph = buildRepertoireGraph([parseGame(PGN)]);
+    const afterE6 = [...graph.positions.values()].find(p => p.paths.length === 2);
+
+    expect(afterE6?.paths.map(p => p.join(" "))).toEqual(["d4 Nf6 c4 e6", "c4 e6 d4 Nf6"]);
+    // outgoing moves from both move orders are merged and de-duplicated
+    expect(afterE6?.moves.map(m => m.move)).toEqual(["Nc3", "Nf3"]);
+    expect(afterE6?.moves[1].nodes).toHaveLength(2);
+  });
+
+  it("marks lines that transpose into earlier ones", () => {
+    const root = parseGame(PGN);
+    const variations = extractVariationsFromTree(root);
+    const english = variations.find(v => v.moves[0] === "c4");
+
+    expect(english?.transposesTo).toEqual({ variationId: variations[0].id, ply: 3 });
+    expect(variations[0].transposesTo).toBeUndefined();
+
+    const graph = buildRepertoireGraph([root]);
+    const positions = createTrainingPositions(english!, "white", graph);
+    expect(positions[2].otherPaths).toEqual([["d4", "Nf6", "c4", "e6"]]);
+    expect(positions[2].key).toBe(createTrainingPositions(variations[0], "white")[2].key);
+  });
+
+  it("trains the moves shared after a transposition in the earlier line only", () => {
+    const variations = extractVariationsFromTree(parseGame("1.d4 (1.c4 e6 2.d4 Nf6 3.Nc3 Bb4) 1...Nf6 2.c4 e6 3.Nc3 Bb4 4.e3 *"));
+    const english = variations.find(v => v.moves[0] === "c4")!;
+
+    expect(english.sharedPlies).toEqual([4, 5]);
+    expect(variations[0].sharedPlies).toBeUndefined();
+    expect(createTrainingPositions(english, "white").map(p => p.moveToMake)).toEqual(["c4", "d4"]);
+    expect(createTrainingPositions(english, "black").map(p => p.moveToMake)).toEqual(["e6", "Nf6"]);
+  });
+});
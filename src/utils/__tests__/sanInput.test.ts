@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { Chess } from "chess.js";
+import { resolveTypedMove } from "../sanInput";
+
+const fenAfter = (...moves: string[]) => {
+  const chess = new Chess();
+  moves.forEach(move => chess.move(move));
+  return chess.fen();
+};
+
+const san = (fen: string, input: string) => {
+  const result = resolveTypedMove(fen, input);
+  return "move" in result ? result.move.san : result.error;
+};
+
+describe("sanInput", () => {
+  it("accepts SAN without capture and check marks, in lowercase or as coordinates", () => {
+    const fen = fenAfter("e4", "d5");
+    expect(san(fen, "exd5")).toBe("exd5");
+    expect(san(fen, "ed5")).toBe("exd5");
+    expect(san(fen, "nf3")).toBe("Nf3");
+    expect(san(fen, "g1f3")).toBe("Nf3");
+    expect(san(fen, "e5")).toBe("e5");
+    expect(san(fen, "d5")).toBe('No legal move matches "d5"');
+
+    expect(san(fenAfter("e4", "f6", "d4", "g5"), "qh5")).toBe("Qh5#");
+  });
+
+  it("reads lowercase b as a pawn file before reading it as a bishop", () => {
+    const fen = fenAfter("b4", "e5", "e4", "Bc5");
+    expect(san(fen, "bc5")).toBe("bxc5");
+    expect(san(fen, "bxc5")).toBe("bxc5");
+    expect(san(fenAfter("e4", "e5"), "bc4")).toBe("Bc4");
+  });
+
+  it("handles castling written in any common way", () => {
+    const fen = fenAfter("e4", "e5", "Nf3", "Nc6", "Bc4", "Bc5");
+    expect(san(fen, "0-0")).toBe("O-O");
+    expect(san(fen, "o-o")).toBe("O-O");
+    expect(san(fen, "O-O-O")).toBe("O-O-O isn't possible here");
+  });
+
+  it("asks for disambiguation only when chess.js needs it", () => {
+    const fen = fenAfter("Nf3", "e5", "d3", "d5", "Nbd2", "c5");
+    expect(san(fen, "Nd4")).toBe("Nd4");
+    expect(san(fen, "Nb3")).toBe("Nb3");
+
+    const twoKnights = fenAfter("Nf3", "Nf6", "Nc3", "Nc6", "Ne4", "Ne5");
+    expect(san(twoKnights, "Ng5")).toBe("Ng5 is ambiguous – Neg5 or Nfg5?");
+    expect(san(twoKnights, "nfg5")).toBe("Nfg5");
+  });
+
+  it("promotes to a queen unless told otherwise", () => {
+    const fen = "4k3/1P6/8/8/8/8/8/4K3 w - - 0 1";
+    expect(san(fen, "b8")).toBe("b8=Q+");
+    expect(san(fen, "b8n")).toBe("b8=N");
+    expect(san(fen, "b7b8r")).toBe("b8=R+");
+  });
+});
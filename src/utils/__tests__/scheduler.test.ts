@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { newCard, reviewCard, dueQueue, isDueToday } from "../scheduler";
+import { TrainingPosition } from "../repertoire";
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date(2024, 0, 1, 12).getTime();
+
+const position = (key: string): TrainingPosition => ({
+  key,
+  fen: key,
+  moveNumber: 1,
+  moveToMake: "e4",
+  description: "",
+});
+
+describe("scheduler", () => {
+  it("grows the interval with every successful review", () => {
+    let card = newCard("a", NOW);
+    card = reviewCard(card, "good", NOW);
+    expect(card.interval).toBe(1);
+    card = reviewCard(card, "good", NOW);
+    expect(card.interval).toBe(6);
+    card = reviewCard(card, "good", NOW);
+    expect(card.interval).toBe(15);
+    expect(card.due).toBe(NOW + 15 * DAY);
+  });
+
+  it("resets a forgotten card and lowers its ease", () => {
+    const learned = reviewCard(reviewCard(newCard("a", NOW), "good", NOW), "good", NOW);
+    const forgotten = reviewCard(learned, "again", NOW);
+    expect(forgotten.repetitions).toBe(0);
+    expect(forgotten.lapses).toBe(1);
+    expect(forgotten.ease).toBeLessThan(learned.ease);
+    expect(isDueToday(forgotten, NOW)).toBe(true);
+  });
+
+  it("queues due cards first, then a limited number of new ones", () => {
+    const cards = {
+      late: { ...newCard("late"), repetitions: 1, interval: 1, due: NOW - 2 * DAY },
+      later: { ...newCard("later"), repetitions: 1, interval: 1, due: NOW - DAY },
+      future: { ...newCard("future"), repetitions: 1, interval: 6, due: NOW + 3 * DAY },
+    };
+    const positions = ["new1", "later", "future", "late", "new2", "late"].map(position);
+
+    expect(dueQueue(positions, cards, NOW, 1).map(p => p.key)).toEqual(["late", "later", "new1"]);
+  });
+});
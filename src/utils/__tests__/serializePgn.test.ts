@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { parseGame, parseGames } from "../parsePgnService";
+import { serializeGame, serializeGames } from "../serializePgn";
+
+const REPERTOIRE = `[Event "Najdorf"]
+[Site "?"]
+[Result "*"]
+
+{Main ideas} 1.e4 c5 2.Nf3 (2.Nc3 {Closed} Nc6 3.g3 (3.f4 g6) 3...g6) 2...d6 3.d4 cxd4
+4.Nxd4 Nf6 $1 5.Nc3 a6 {The Najdorf [%cal Ge7e5] [%csl Rd5]} 6.Be3 (6.Bg5 e6 $14) 6...e5 *`;
+
+describe("serializePgn", () => {
+  it("writes move numbers, RAVs, comments and the result", () => {
+    const root = parseGame("1.e4 e5 (1...c5 2.Nf3) 2.Nf3 {Develops} Nc6 $1 1-0");
+    expect(serializeGame(root, { Event: "Test", Result: "1-0" })).toBe(
+      '[Event "Test"]\n[Result "1-0"]\n\n' +
+      "1. e4 e5 (1... c5 2. Nf3) 2. Nf3 {Develops} 2... Nc6 $1 1-0\n"
+    );
+  });
+
+  it("round-trips a commented repertoire with nested variations", () => {
+    const [game] = parseGames(REPERTOIRE);
+    const pgn = serializeGame(game.root, game.headers);
+    const [again] = parseGames(pgn);
+
+    expect(again.root).toEqual(game.root);
+    expect(again.headers).toEqual(game.headers);
+    expect(serializeGame(again.root, again.headers)).toBe(pgn);
+  });
+
+  it("records the FEN of a set-up position and numbers black's first move", () => {
+    const root = parseGame('[SetUp "1"]\n[FEN "4k3/8/4K3/4P3/8/8/8/8 b - - 0 40"]\n\n40... Kd8 41.Kf7 *');
+    const pgn = serializeGame(root);
+
+    expect(pgn).toContain('[FEN "4k3/8/4K3/4P3/8/8/8/8 b - - 0 40"]');
+    expect(pgn).toContain("40... Kd8 41. Kf7 *");
+    expect(parseGame(pgn)).toEqual(root);
+  });
+
+  it("keeps lines within 80 characters and separates games", () => {
+    const games = parseGames(`${REPERTOIRE}\n\n[Event "Second"]\n\n1.d4 d5 *`);
+    const pgn = serializeGames(games);
+
+    expect(pgn.split("\n").every(line => line.length <= 80)).toBe(true);
+    expect(parseGames(pgn)).toEqual(games);
+  });
+
+  it("puts long comments on a line of their own and wraps before closing brackets", () => {
+    const note = "White gives up the bishop pair to win time for f4 and a kingside attack, " +
+      "so keep the knight on d4 and answer ...e5 with Nb3 rather than Nf3.";
+    const root = parseGame(`1.e4 c5 2.Nc3 {${note}} (2.Nf3 d6 (2...Nc6 3.d4 cxd4 4.Nxd4 g6 5.Nc3 e5 6.Ndb5 d6 7.Bg5 a6 8.Na3)) 2...Nc6 *`);
+    const pgn = serializeGame(root);
+    const lines = pgn.split("\n");
+
+    expect(lines).toContain(`{${note}}`);
+    expect(lines.filter(line => !line.startsWith("{")).every(line => line.length <= 80)).toBe(true);
+    expect(parseGame(pgn)).toEqual(root);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { dailyActivity, mostMissed, accuracyByVariation, accuracyByDepth, dueForecast } from "../trainingStats";
+import { MoveAttempt } from "../deckStorage";
+import { newCard } from "../scheduler";
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date(2024, 0, 10, 12).getTime();
+
+const attempt = (key: string, correct: boolean, extra: Partial<MoveAttempt> = {}): MoveAttempt => ({
+  deckId: "deck",
+  key,
+  fen: key,
+  moveNumber: 1,
+  expected: "e4",
+  played: correct ? "e4" : "d4",
+  correct,
+  attemptedAt: NOW,
+  ...extra,
+});
+
+describe("trainingStats", () => {
+  it("counts attempts and accuracy per day, including empty days", () => {
+    const days = dailyActivity([
+      attempt("a", true),
+      attempt("a", false),
+      attempt("b", true, { attemptedAt: NOW - 2 * DAY }),
+      attempt("c", true, { attemptedAt: NOW - 30 * DAY }),
+    ], 3, NOW);
+
+    expect(days).toEqual([
+      { date: "2024-01-08", attempts: 1, correct: 1, accuracy: 100 },
+      { date: "2024-01-09", attempts: 0, correct: 0, accuracy: null },
+      { date: "2024-01-10", attempts: 2, correct: 1, accuracy: 50 },
+    ]);
+  });
+
+  it("ranks the positions with the most misses", () => {
+    const missed = mostMissed([
+      attempt("a", false),
+      attempt("b", false),
+      attempt("b", false),
+      attempt("b", true),
+      attempt("c", true),
+    ]);
+    expect(missed.map(m => [m.key, m.misses, m.attempts])).toEqual([["b", 2, 3], ["a", 1, 1]]);
+  });
+
+  it("groups accuracy by variation and by move number", () => {
+    const attempts = [
+      attempt("a", true, { variationId: "v1", moveNumber: 2 }),
+      attempt("b", false, { variationId: "v2", moveNumber: 1 }),
+      attempt("c", true, { variationId: "v2", moveNumber: 1 }),
+      attempt("d", true, { moveNumber: 1 }),
+    ];
+
+    expect(accuracyByVariation(attempts).map(a => [a.group, a.accuracy])).toEqual([["v2", 50], ["v1", 100]]);
+    expect(accuracyByDepth(attempts).map(a => [a.group, a.attempts, a.accuracy])).toEqual([[1, 3, 67], [2, 1, 100]]);
+  });
+
+  it("forecasts due cards per day with overdue cards due today", () => {
+    const cards = {
+      late: { ...newCard("late"), due: NOW - 3 * DAY },
+      today: { ...newCard("today"), due: NOW + 60 * 60 * 1000 },
+      soon: { ...newCard("soon"), due: NOW + 2 * DAY },
+      far: { ...newCard("far"), due: NOW + 40 * DAY },
+    };
+    expect(dueForecast(cards, 3, NOW).map(day => day.due)).toEqual([2, 0, 1]);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { parseGame } from "../parsePgnService";
+import { movetext } from "./helpers";
+import {
+  addMove,
+  deleteSubtree,
+  promoteVariation,
+  setComments,
+  nodeAt,
+  pathTo,
+  emptyHistory,
+  recordEdit,
+  undoEdit,
+  redoEdit,
+} from "../treeEditor";
+
+describe("treeEditor", () => {
+  it("adds a played move as a new branch and reuses existing moves", () => {
+    const root = parseGame("1.e4 e5 2.Nf3 *");
+    const added = addMove(root, [0], "c5");
+
+    expect(added.path).toEqual([0, 1]);
+    expect(movetext(added.root)).toBe("1. e4 e5 (1... c5) 2. Nf3 *");
+    expect(addMove(added.root, [0], "e5").path).toEqual([0, 0]);
+    // untouched subtrees are shared, the original tree is unchanged
+    expect(added.root.children[0].children[0]).toBe(root.children[0].children[0]);
+    expect(movetext(root)).toBe("1. e4 e5 2. Nf3 *");
+  });
+
+  it("rejects illegal moves", () => {
+    expect(() => addMove(parseGame("1.e4 *"), [0], "e4")).toThrow();
+  });
+
+  it("deletes subtrees and promotes variations", () => {
+    const root = parseGame("1.e4 e5 (1...c5 2.Nf3) (1...e6) 2.Nf3 *");
+
+    expect(movetext(deleteSubtree(root, [0, 0]))).toBe("1. e4 c5 (1... e6) 2. Nf3 *");
+
+    const promoted = promoteVariation(root, [0, 2]);
+    expect(promoted.path).toEqual([0, 0]);
+    expect(movetext(promoted.root)).toBe("1. e4 e6 (1... e5 2. Nf3) (1... c5 2. Nf3) *");
+  });
+
+  it("edits and removes comments", () => {
+    const root = parseGame("1.e4 {Best by test} *");
+    const edited = setComments(root, [0], { commentAfter: "", commentBefore: "Main move" });
+
+    expect(nodeAt(edited, [0])).toMatchObject({ commentBefore: "Main move" });
+    expect(nodeAt(edited, [0])).not.toHaveProperty("commentAfter");
+    expect(pathTo(edited, nodeAt(edited, [0])!)).toEqual([0]);
+  });
+
+  it("undoes and redoes whole edits", () => {
+    const first = parseGame("1.e4 *");
+    const second = addMove(first, [0], "e5").root;
+    let history = recordEdit(emptyHistory, first);
+
+    const undone = undoEdit(history, second)!;
+    expect(undone.root).toBe(first);
+    history = undone.history;
+
+    const redone = redoEdit(history, first)!;
+    expect(redone.root).toBe(second);
+    expect(undoEdit(emptyHistory, first)).toBeNull();
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, it, expect } from "vitest";
+import { parseGame } from "../parsePgnService";
+import { positionKey } from "../repertoireGraph";
+import { newCard } from "../scheduler";
+import { collectSubtreeStats } from "../treeStats";
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date(2024, 0, 1, 12).getTime();
+
+describe("treeStats", () => {
+  it("counts branches, depth and training status per subtree", () => {
+    const root = parseGame("1.e4 c5 (1...e5 2.Nf3) 2.Nf3 d6 3.d4 *");
+    const e4 = root.children[0];
+    const sicilian = e4.children[0];
+    const learned = { ...newCard(positionKey(sicilian.children[0].fen)), due: NOW + 3 * DAY };
+    const due = { ...newCard(positionKey(root.fen)), due: NOW - DAY };
+
+    const stats = collectSubtreeStats(root, "white", { [learned.key]: learned, [due.key]: due }, NOW);
+
+    expect(stats.get(root)).toEqual({ branches: 2, depth: 5, learned: 1, due: 1, fresh: 2 });
+    expect(stats.get(sicilian)).toEqual({ branches: 1, depth: 3, learned: 1, due: 0, fresh: 1 });
+    expect(stats.get(e4.children[1])).toMatchObject({ branches: 1, depth: 1, fresh: 1 });
+  });
+});
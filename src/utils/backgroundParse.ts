@@ -0,0 +1,72 @@
+/*
+ * PGN Branch Buddy – Parsing in the background
+ * --------------------------------------------
+ * Multi-megabyte repertoires and databases take seconds to parse, which
+ * would freeze the page. `parseGamesInBackground` runs `parseGames` in a
+ * Web Worker, one per call, reports its progress and terminates the worker
+ * when the caller aborts. Where workers aren't available (tests, old
+ * browsers) it parses on the main thread instead.
+ *
+ * Exported API
+ * ------------
+ *   type BackgroundParseOptions
+ *   parseGamesInBackground(pgn, options) – resolves to the parsed games.
+ */
+
+import { ParsedGame, PgnParseError, parseGames } from "./parsePgnService";
+import type { ParseRequest, ParseResponse } from "./parsePgn.worker";
+
+export interface BackgroundParseOptions {
+  strict?: boolean;
+  /** Moves built into trees so far, out of all moves in the PGN. */
+  onProgress?: (done: number, total: number) => void;
+  /** Aborting terminates the worker and rejects with an "AbortError". */
+  signal?: AbortSignal;
+}
+
+const cancelled = () => new DOMException("Parsing was cancelled", "AbortError");
+
+/** Same results and errors as `parseGames`. */
+export function parseGamesInBackground(
+  pgn: string,
+  { strict, onProgress, signal }: BackgroundParseOptions = {}
+): Promise<ParsedGame[]> {
+  if (signal?.aborted) return Promise.reject(cancelled());
+  if (typeof Worker === "undefined") {
+    return Promise.resolve().then(() => parseGames(pgn, { strict, onProgress }));
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL("./parsePgn.worker.ts", import.meta.url), { type: "module" });
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener("abort", abort);
+    };
+    const abort = () => {
+      finish();
+      reject(cancelled());
+    };
+    signal?.addEventListener("abort", abort, { once: true });
+
+    worker.onmessage = (event: MessageEvent<ParseResponse>) => {
+      const response = event.data;
+      if (response.type === "progress") {
+        onProgress?.(response.done, response.total);
+        return;
+      }
+
+      finish();
+      if (response.type === "done") resolve(response.games);
+      else if (response.diagnostics) reject(new PgnParseError(response.message, response.diagnostics));
+      else reject(new Error(response.message));
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || "The PGN parser stopped unexpectedly"));
+    };
+
+    const request: ParseRequest = { pgn, strict };
+    worker.postMessage(request);
+  });
+}
@@ -0,0 +1,32 @@
+// Content-derived identifiers: the same line or position always gets the
+// same id, so saved progress survives editing and re-importing a PGN.
+
+import { positionKey } from "./repertoireGraph";
+
+/** 32-bit FNV-1a hash of `text`, base-36 encoded. */
+export function hashString(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/** Id of a line: its start position plus its moves. */
+export function lineId(startFen: string, moves: string[]): string {
+  return `line-${hashString(`${positionKey(startFen)}|${moves.join(" ")}`)}`;
+}
+
+/**
+ * Make ids unique without touching the first occurrence: a duplicated line
+ * (same moves in two chapters) gets "-2", "-3", … appended.
+ */
+export function dedupeIds<T extends { id: string }>(items: T[]): T[] {
+  const seen = new Map<string, number>();
+  return items.map(item => {
+    const count = (seen.get(item.id) ?? 0) + 1;
+    seen.set(item.id, count);
+    return count === 1 ? item : { ...item, id: `${item.id}-${count}` };
+  });
+}
@@ -0,0 +1,263 @@
+/*
+ * PGN Branch Buddy – IndexedDB persistence
+ * -----------------------------------------
+ * Keeps decks, scheduling state, review history and settings across page
+ * reloads. Plain IndexedDB wrapped in promises; the trees are stored as
+ * parsed so reopening a deck does not need to re-parse the PGN.
+ *
+ * Object stores
+ * -------------
+ *   decks     – DeckSummary, keyed by id – all the deck library needs.
+ *   contents  – the PGN and game trees of each deck, keyed by deck id.
+ *   cards     – CardState per deck, keyed by [deckId, key].
+ *   reviews   – ReviewRecord log, auto-increment id, indexed by deckId.
+ *   attempts  – MoveAttempt log, auto-increment id, indexed by deckId.
+ *   settings  – arbitrary values keyed by name.
+ */
+
+import { ParsedGame } from "./parsePgnService";
+import { CardState, ReviewGrade } from "./scheduler";
+import { hashString } from "./contentId";
+
+export interface StoredDeck {
+  id: string;
+  name: string;
+  /** The PGN text exactly as uploaded. */
+  pgn: string;
+  /** The chapters that were loaded into the deck. */
+  games: ParsedGame[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** A deck without its PGN and trees, for listing. */
+export interface DeckSummary {
+  id: string;
+  name: string;
+  /** Number of chapters (games) in the deck. */
+  chapters: number;
+  /** `hashString` of the PGN, to recognise a file that is loaded again. */
+  pgnHash: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+interface DeckContents {
+  id: string;
+  pgn: string;
+  games: ParsedGame[];
+}
+
+/** One graded attempt at a training position. */
+export interface ReviewRecord {
+  id?: number;
+  deckId: string;
+  /** `TrainingPosition.key` of the position. */
+  key: string;
+  grade: ReviewGrade;
+  reviewedAt: number;
+}
+
+/** One move played in a training position, right or wrong. */
+export interface MoveAttempt {
+  id?: number;
+  deckId: string;
+  /** `TrainingPosition.key` of the position. */
+  key: string;
+  fen: string;
+  variationId?: string;
+  /** Full move number of the position. */
+  moveNumber: number;
+  expected: string;
+  played: string;
+  correct: boolean;
+  attemptedAt: number;
+}
+
+interface StoredCard extends CardState {
+  deckId: string;
+}
+
+const DB_NAME = "pgn-branch-buddy";
+const DB_VERSION = 3;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          db.createObjectStore("decks", { keyPath: "id" });
+          db.createObjectStore("cards", { keyPath: ["deckId", "key"] })
+            .createIndex("deckId", "deckId");
+          db.createObjectStore("reviews", { keyPath: "id", autoIncrement: true })
+            .createIndex("deckId", "deckId");
+          db.createObjectStore("settings");
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore("attempts", { keyPath: "id", autoIncrement: true })
+            .createIndex("deckId", "deckId");
+        }
+        if (event.oldVersion < 3) {
+          // Split the stored decks into a summary and their contents
+          const contents = db.createObjectStore("contents", { keyPath: "id" });
+          const cursorRequest = request.transaction!.objectStore("decks").openCursor();
+          cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) return;
+            const deck = cursor.value as StoredDeck;
+            contents.put(contentsOf(deck));
+            cursor.update(summaryOf(deck));
+            cursor.continue();
+          };
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/** Resolve once `tx` commits; reject if it fails or is aborted. */
+function completion(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    // A transaction aborted on purpose has no error of its own
+    const fail = () => reject(tx.error ?? new DOMException("Transaction aborted", "AbortError"));
+    tx.oncomplete = () => resolve();
+    tx.onerror = fail;
+    tx.onabort = fail;
+  });
+}
+
+/** Run `fn` against one object store and resolve once the transaction commits. */
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T> {
+  const db = await openDb();
+  const tx = db.transaction(storeName, mode);
+  const request = fn(tx.objectStore(storeName));
+  await completion(tx);
+  return (request ? request.result : undefined) as T;
+}
+
+// ——— decks ———
+
+function summaryOf(deck: StoredDeck): DeckSummary {
+  return {
+    id: deck.id,
+    name: deck.name,
+    chapters: deck.games.length,
+    pgnHash: hashString(deck.pgn),
+    createdAt: deck.createdAt,
+    updatedAt: deck.updatedAt
+  };
+}
+
+function contentsOf(deck: StoredDeck): DeckContents {
+  return { id: deck.id, pgn: deck.pgn, games: deck.games };
+}
+
+export async function saveDeck(deck: StoredDeck): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(["decks", "contents"], "readwrite");
+  tx.objectStore("decks").put(summaryOf(deck));
+  tx.objectStore("contents").put(contentsOf(deck));
+  return completion(tx);
+}
+
+export async function getDeck(id: string): Promise<StoredDeck | undefined> {
+  const db = await openDb();
+  const tx = db.transaction(["decks", "contents"], "readonly");
+  const summary = tx.objectStore("decks").get(id);
+  const contents = tx.objectStore("contents").get(id);
+  await completion(tx);
+
+  if (!summary.result || !contents.result) return undefined;
+  const { chapters: _chapters, pgnHash: _pgnHash, ...deck } = summary.result as DeckSummary;
+  const { pgn, games } = contents.result as DeckContents;
+  return { ...deck, pgn, games };
+}
+
+/** All decks, most recently used first – without their games. */
+export async function listDecks(): Promise<DeckSummary[]> {
+  const decks = await withStore<DeckSummary[]>("decks", "readonly", store => store.getAll());
+  return decks.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/** Delete a deck together with its cards and training history. */
+export async function deleteDeck(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(["decks", "contents", "cards", "reviews", "attempts"], "readwrite");
+  tx.objectStore("decks").delete(id);
+  tx.objectStore("contents").delete(id);
+
+  for (const storeName of ["cards", "reviews", "attempts"]) {
+    const store = tx.objectStore(storeName);
+    const request = store.index("deckId").getAllKeys(id);
+    request.onsuccess = () => request.result.forEach(key => store.delete(key));
+  }
+
+  return completion(tx);
+}
+
+// ——— scheduling state & history ———
+
+export function saveCard(deckId: string, card: CardState): Promise<void> {
+  const stored: StoredCard = { ...card, deckId };
+  return withStore("cards", "readwrite", store => { store.put(stored); });
+}
+
+/** Scheduling state of a deck, keyed by position key. */
+export async function loadCards(deckId: string): Promise<Record<string, CardState>> {
+  const stored = await withStore<StoredCard[]>("cards", "readonly", store =>
+    store.index("deckId").getAll(deckId)
+  );
+  const cards: Record<string, CardState> = {};
+  for (const { deckId: _, ...card } of stored) cards[card.key] = card;
+  return cards;
+}
+
+export function addReview(record: ReviewRecord): Promise<void> {
+  return withStore("reviews", "readwrite", store => { store.add(record); });
+}
+
+/** Review log of a deck, oldest first. */
+export async function listReviews(deckId: string): Promise<ReviewRecord[]> {
+  const reviews = await withStore<ReviewRecord[]>("reviews", "readonly", store =>
+    store.index("deckId").getAll(deckId)
+  );
+  return reviews.sort((a, b) => a.reviewedAt - b.reviewedAt);
+}
+
+export function addAttempt(attempt: MoveAttempt): Promise<void> {
+  return withStore("attempts", "readwrite", store => { store.add(attempt); });
+}
+
+/** Every move played in a deck's training, oldest first. */
+export async function listAttempts(deckId: string): Promise<MoveAttempt[]> {
+  const attempts = await withStore<MoveAttempt[]>("attempts", "readonly", store =>
+    store.index("deckId").getAll(deckId)
+  );
+  return attempts.sort((a, b) => a.attemptedAt - b.attemptedAt);
+}
+
+// ——— settings ———
+
+export async function getSetting<T>(name: string, fallback: T): Promise<T> {
+  const value = await withStore<T | undefined>("settings", "readonly", store => store.get(name));
+  return value === undefined ? fallback : value;
+}
+
+export function setSetting<T>(name: string, value: T): Promise<void> {
+  return withStore("settings", "readwrite", store => { store.put(value, name); });
+}
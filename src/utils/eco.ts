@@ -0,0 +1,217 @@
+/*
+ * PGN Branch Buddy – Offline opening classification
+ * -------------------------------------------------
+ * A compact ECO table bundled with the app, so lines can be labelled
+ * "B90 Sicilian Defense: Najdorf, English Attack" without a network call.
+ * Entries are matched by position (`positionKey`), not by move order, so a
+ * line that transposes into a named opening is still recognised.
+ *
+ * Exported API
+ * ------------
+ *   type EcoOpening
+ *   classifyOpening(startFen, moves) – deepest named opening along a line.
+ */
+
+import { Chess } from "chess.js";
+import { positionKey } from "./repertoireGraph";
+
+export interface EcoOpening {
+  /** ECO code, e.g. "B90". */
+  eco: string;
+  name: string;
+}
+
+// [ECO, name, moves from the initial position]. More specific entries
+// simply list more moves – the deepest match along a line wins.
+const ECO_TABLE: [string, string, string][] = [
+  ["A00", "Polish Opening", "b4"],
+  ["A00", "Grob Opening", "g4"],
+  ["A01", "Nimzo-Larsen Attack", "b3"],
+  ["A02", "Bird's Opening", "f4"],
+  ["A03", "Bird's Opening: Dutch Variation", "f4 d5"],
+  ["A04", "Réti Opening", "Nf3"],
+  ["A05", "Réti Opening", "Nf3 Nf6"],
+  ["A06", "Réti Opening", "Nf3 d5"],
+  ["A07", "King's Indian Attack", "Nf3 d5 g3"],
+  ["A09", "Réti Opening: Advance Variation", "Nf3 d5 c4 d4"],
+  ["A10", "English Opening", "c4"],
+  ["A13", "English Opening: Agincourt Defense", "c4 e6"],
+  ["A15", "English Opening: Anglo-Indian Defense", "c4 Nf6"],
+  ["A16", "English Opening: Anglo-Indian Defense", "c4 Nf6 Nc3"],
+  ["A20", "English Opening: King's English", "c4 e5"],
+  ["A21", "English Opening: Reversed Sicilian", "c4 e5 Nc3"],
+  ["A22", "English Opening: Two Knights Variation", "c4 e5 Nc3 Nf6"],
+  ["A25", "English Opening: Closed", "c4 e5 Nc3 Nc6"],
+  ["A30", "English Opening: Symmetrical Variation", "c4 c5"],
+  ["A40", "Queen's Pawn Game", "d4"],
+  ["A41", "Queen's Pawn Game: Modern Defense", "d4 d6"],
+  ["A43", "Old Benoni Defense", "d4 c5"],
+  ["A45", "Indian Game", "d4 Nf6"],
+  ["A45", "Trompowsky Attack", "d4 Nf6 Bg5"],
+  ["A46", "Indian Game: Knights Variation", "d4 Nf6 Nf3"],
+  ["A46", "London System", "d4 Nf6 Nf3 e6 Bf4"],
+  ["A48", "London System", "d4 Nf6 Nf3 g6 Bf4"],
+  ["A51", "Budapest Gambit", "d4 Nf6 c4 e5"],
+  ["A56", "Benoni Defense", "d4 Nf6 c4 c5"],
+  ["A57", "Benko Gambit", "d4 Nf6 c4 c5 d5 b5"],
+  ["A60", "Modern Benoni", "d4 Nf6 c4 c5 d5 e6"],
+  ["A80", "Dutch Defense", "d4 f5"],
+  ["A87", "Dutch Defense: Leningrad Variation", "d4 f5 c4 Nf6 g3 g6 Bg2 Bg7 Nf3"],
+  ["A90", "Dutch Defense: Stonewall", "d4 f5 c4 Nf6 g3 e6 Bg2 d5"],
+  ["B00", "Nimzowitsch Defense", "e4 Nc6"],
+  ["B00", "Owen Defense", "e4 b6"],
+  ["B01", "Scandinavian Defense", "e4 d5"],
+  ["B01", "Scandinavian Defense: Main Line", "e4 d5 exd5 Qxd5 Nc3 Qa5"],
+  ["B01", "Scandinavian Defense: Modern Variation", "e4 d5 exd5 Nf6"],
+  ["B02", "Alekhine Defense", "e4 Nf6"],
+  ["B03", "Alekhine Defense: Four Pawns Attack", "e4 Nf6 e5 Nd5 d4 d6 c4 Nb6 f4"],
+  ["B04", "Alekhine Defense: Modern Variation", "e4 Nf6 e5 Nd5 d4 d6 Nf3"],
+  ["B06", "Modern Defense", "e4 g6"],
+  ["B07", "Pirc Defense", "e4 d6 d4 Nf6 Nc3 g6"],
+  ["B09", "Pirc Defense: Austrian Attack", "e4 d6 d4 Nf6 Nc3 g6 f4"],
+  ["B10", "Caro-Kann Defense", "e4 c6"],
+  ["B12", "Caro-Kann Defense: Advance Variation", "e4 c6 d4 d5 e5"],
+  ["B13", "Caro-Kann Defense: Exchange Variation", "e4 c6 d4 d5 exd5 cxd5"],
+  ["B13", "Caro-Kann Defense: Panov Attack", "e4 c6 d4 d5 exd5 cxd5 c4"],
+  ["B15", "Caro-Kann Defense", "e4 c6 d4 d5 Nc3"],
+  ["B17", "Caro-Kann Defense: Karpov Variation", "e4 c6 d4 d5 Nc3 dxe4 Nxe4 Nd7"],
+  ["B18", "Caro-Kann Defense: Classical Variation", "e4 c6 d4 d5 Nc3 dxe4 Nxe4 Bf5"],
+  ["B20", "Sicilian Defense", "e4 c5"],
+  ["B21", "Sicilian Defense: Smith-Morra Gambit", "e4 c5 d4 cxd4 c3"],
+  ["B22", "Sicilian Defense: Alapin Variation", "e4 c5 c3"],
+  ["B23", "Sicilian Defense: Closed", "e4 c5 Nc3"],
+  ["B27", "Sicilian Defense", "e4 c5 Nf3"],
+  ["B30", "Sicilian Defense: Old Sicilian", "e4 c5 Nf3 Nc6"],
+  ["B31", "Sicilian Defense: Rossolimo Variation", "e4 c5 Nf3 Nc6 Bb5"],
+  ["B32", "Sicilian Defense: Open", "e4 c5 Nf3 Nc6 d4 cxd4 Nxd4"],
+  ["B33", "Sicilian Defense: Sveshnikov Variation", "e4 c5 Nf3 Nc6 d4 cxd4 Nxd4 Nf6 Nc3 e5"],
+  ["B35", "Sicilian Defense: Accelerated Dragon", "e4 c5 Nf3 Nc6 d4 cxd4 Nxd4 g6"],
+  ["B40", "Sicilian Defense: French Variation", "e4 c5 Nf3 e6"],
+  ["B41", "Sicilian Defense: Kan Variation", "e4 c5 Nf3 e6 d4 cxd4 Nxd4 a6"],
+  ["B44", "Sicilian Defense: Taimanov Variation", "e4 c5 Nf3 e6 d4 cxd4 Nxd4 Nc6"],
+  ["B50", "Sicilian Defense: Modern Variations", "e4 c5 Nf3 d6"],
+  ["B51", "Sicilian Defense: Moscow Variation", "e4 c5 Nf3 d6 Bb5+"],
+  ["B54", "Sicilian Defense: Open", "e4 c5 Nf3 d6 d4 cxd4 Nxd4"],
+  ["B56", "Sicilian Defense: Classical Variation", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 Nc6"],
+  ["B70", "Sicilian Defense: Dragon Variation", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 g6"],
+  ["B76", "Sicilian Defense: Dragon, Yugoslav Attack", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 g6 Be3 Bg7 f3 O-O"],
+  ["B80", "Sicilian Defense: Scheveningen Variation", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 e6"],
+  ["B90", "Sicilian Defense: Najdorf Variation", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6"],
+  ["B90", "Sicilian Defense: Najdorf, English Attack", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6 Be3"],
+  ["B90", "Sicilian Defense: Najdorf, Adams Attack", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6 h3"],
+  ["B92", "Sicilian Defense: Najdorf, Opocensky Variation", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6 Be2"],
+  ["B94", "Sicilian Defense: Najdorf, Main Line", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6 Bg5"],
+  ["C00", "French Defense", "e4 e6"],
+  ["C01", "French Defense: Exchange Variation", "e4 e6 d4 d5 exd5"],
+  ["C02", "French Defense: Advance Variation", "e4 e6 d4 d5 e5"],
+  ["C03", "French Defense: Tarrasch Variation", "e4 e6 d4 d5 Nd2"],
+  ["C10", "French Defense: Rubinstein Variation", "e4 e6 d4 d5 Nc3 dxe4"],
+  ["C11", "French Defense: Classical Variation", "e4 e6 d4 d5 Nc3 Nf6"],
+  ["C15", "French Defense: Winawer Variation", "e4 e6 d4 d5 Nc3 Bb4"],
+  ["C20", "King's Pawn Game", "e4 e5"],
+  ["C21", "Center Game", "e4 e5 d4 exd4"],
+  ["C23", "Bishop's Opening", "e4 e5 Bc4"],
+  ["C25", "Vienna Game", "e4 e5 Nc3"],
+  ["C30", "King's Gambit", "e4 e5 f4"],
+  ["C33", "King's Gambit Accepted", "e4 e5 f4 exf4"],
+  ["C40", "King's Knight Opening", "e4 e5 Nf3"],
+  ["C41", "Philidor Defense", "e4 e5 Nf3 d6"],
+  ["C42", "Petrov's Defense", "e4 e5 Nf3 Nf6"],
+  ["C44", "King's Pawn Game", "e4 e5 Nf3 Nc6"],
+  ["C44", "Scotch Game", "e4 e5 Nf3 Nc6 d4"],
+  ["C45", "Scotch Game", "e4 e5 Nf3 Nc6 d4 exd4 Nxd4"],
+  ["C46", "Three Knights Opening", "e4 e5 Nf3 Nc6 Nc3"],
+  ["C47", "Four Knights Game", "e4 e5 Nf3 Nc6 Nc3 Nf6"],
+  ["C50", "Italian Game", "e4 e5 Nf3 Nc6 Bc4"],
+  ["C50", "Italian Game: Giuoco Piano", "e4 e5 Nf3 Nc6 Bc4 Bc5"],
+  ["C51", "Italian Game: Evans Gambit", "e4 e5 Nf3 Nc6 Bc4 Bc5 b4"],
+  ["C53", "Italian Game: Classical Variation", "e4 e5 Nf3 Nc6 Bc4 Bc5 c3"],
+  ["C55", "Italian Game: Two Knights Defense", "e4 e5 Nf3 Nc6 Bc4 Nf6"],
+  ["C57", "Italian Game: Two Knights Defense, Knight Attack", "e4 e5 Nf3 Nc6 Bc4 Nf6 Ng5"],
+  ["C60", "Ruy Lopez", "e4 e5 Nf3 Nc6 Bb5"],
+  ["C62", "Ruy Lopez: Steinitz Defense", "e4 e5 Nf3 Nc6 Bb5 d6"],
+  ["C65", "Ruy Lopez: Berlin Defense", "e4 e5 Nf3 Nc6 Bb5 Nf6"],
+  ["C67", "Ruy Lopez: Berlin Defense, Berlin Wall", "e4 e5 Nf3 Nc6 Bb5 Nf6 O-O Nxe4 d4 Nd6 Bxc6 dxc6 dxe5 Nf5 Qxd8+ Kxd8"],
+  ["C68", "Ruy Lopez: Exchange Variation", "e4 e5 Nf3 Nc6 Bb5 a6 Bxc6"],
+  ["C70", "Ruy Lopez: Morphy Defense", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4"],
+  ["C78", "Ruy Lopez: Morphy Defense", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O"],
+  ["C80", "Ruy Lopez: Open Variation", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Nxe4"],
+  ["C84", "Ruy Lopez: Closed", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7"],
+  ["C88", "Ruy Lopez: Closed", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Re1 b5 Bb3"],
+  ["C89", "Ruy Lopez: Marshall Attack", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Re1 b5 Bb3 O-O c3 d5"],
+  ["C92", "Ruy Lopez: Closed, Main Line", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Re1 b5 Bb3 d6 c3 O-O h3"],
+  ["D00", "Queen's Pawn Game", "d4 d5"],
+  ["D00", "London System", "d4 d5 Bf4"],
+  ["D02", "Queen's Pawn Game", "d4 d5 Nf3"],
+  ["D02", "London System", "d4 d5 Nf3 Nf6 Bf4"],
+  ["D06", "Queen's Gambit", "d4 d5 c4"],
+  ["D07", "Queen's Gambit Declined: Chigorin Defense", "d4 d5 c4 Nc6"],
+  ["D08", "Queen's Gambit Declined: Albin Countergambit", "d4 d5 c4 e5"],
+  ["D10", "Slav Defense", "d4 d5 c4 c6"],
+  ["D15", "Slav Defense", "d4 d5 c4 c6 Nf3 Nf6 Nc3"],
+  ["D17", "Slav Defense: Czech Variation", "d4 d5 c4 c6 Nf3 Nf6 Nc3 dxc4 a4 Bf5"],
+  ["D20", "Queen's Gambit Accepted", "d4 d5 c4 dxc4"],
+  ["D30", "Queen's Gambit Declined", "d4 d5 c4 e6"],
+  ["D31", "Queen's Gambit Declined", "d4 d5 c4 e6 Nc3"],
+  ["D35", "Queen's Gambit Declined: Exchange Variation", "d4 d5 c4 e6 Nc3 Nf6 cxd5"],
+  ["D37", "Queen's Gambit Declined: Harrwitz Attack", "d4 d5 c4 e6 Nc3 Nf6 Nf3 Be7 Bf4"],
+  ["D43", "Semi-Slav Defense", "d4 d5 c4 e6 Nc3 Nf6 Nf3 c6"],
+  ["D45", "Semi-Slav Defense: Normal Variation", "d4 d5 c4 e6 Nc3 Nf6 Nf3 c6 e3 Nbd7"],
+  ["D80", "Grünfeld Defense", "d4 Nf6 c4 g6 Nc3 d5"],
+  ["D85", "Grünfeld Defense: Exchange Variation", "d4 Nf6 c4 g6 Nc3 d5 cxd5 Nxd5"],
+  ["E00", "Indian Game: East Indian Defense", "d4 Nf6 c4 e6"],
+  ["E01", "Catalan Opening", "d4 Nf6 c4 e6 g3 d5 Bg2"],
+  ["E10", "Indian Game", "d4 Nf6 c4 e6 Nf3"],
+  ["E11", "Bogo-Indian Defense", "d4 Nf6 c4 e6 Nf3 Bb4+"],
+  ["E12", "Queen's Indian Defense", "d4 Nf6 c4 e6 Nf3 b6"],
+  ["E20", "Nimzo-Indian Defense", "d4 Nf6 c4 e6 Nc3 Bb4"],
+  ["E32", "Nimzo-Indian Defense: Classical Variation", "d4 Nf6 c4 e6 Nc3 Bb4 Qc2"],
+  ["E40", "Nimzo-Indian Defense: Rubinstein Variation", "d4 Nf6 c4 e6 Nc3 Bb4 e3"],
+  ["E60", "King's Indian Defense", "d4 Nf6 c4 g6"],
+  ["E61", "King's Indian Defense", "d4 Nf6 c4 g6 Nc3 Bg7"],
+  ["E70", "King's Indian Defense: Normal Variation", "d4 Nf6 c4 g6 Nc3 Bg7 e4 d6"],
+  ["E76", "King's Indian Defense: Four Pawns Attack", "d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 f4"],
+  ["E80", "King's Indian Defense: Sämisch Variation", "d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 f3"],
+  ["E90", "King's Indian Defense: Normal Variation", "d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 Nf3"],
+  ["E92", "King's Indian Defense: Classical Variation", "d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 Nf3 O-O Be2 e5"],
+  ["E97", "King's Indian Defense: Mar del Plata Variation", "d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 Nf3 O-O Be2 e5 O-O Nc6 d5 Ne7"]
+];
+
+let index: Map<string, EcoOpening> | null = null;
+
+// Position → opening, built on first use. The first entry reaching a
+// position names it; entries that contain an illegal move are skipped.
+function ecoIndex(): Map<string, EcoOpening> {
+  if (index) return index;
+
+  index = new Map();
+  for (const [eco, name, moves] of ECO_TABLE) {
+    const chess = new Chess();
+    try {
+      moves.split(" ").forEach(move => chess.move(move));
+    } catch {
+      console.warn(`Skipping ECO entry with an illegal move: ${eco} ${name}`);
+      continue;
+    }
+    const key = positionKey(chess.fen());
+    if (!index.has(key)) index.set(key, { eco, name });
+  }
+  return index;
+}
+
+/** The most specific named opening reached anywhere along the line, if any. */
+export function classifyOpening(startFen: string, moves: string[]): EcoOpening | undefined {
+  const openings = ecoIndex();
+  const chess = new Chess(startFen);
+  let found = openings.get(positionKey(startFen));
+
+  for (const move of moves) {
+    try {
+      chess.move(move);
+    } catch {
+      break;
+    }
+    found = openings.get(positionKey(chess.fen())) ?? found;
+  }
+  return found;
+}
@@ -0,0 +1,89 @@
+/*
+ * PGN Branch Buddy – Progressive hints
+ * ------------------------------------
+ * Hints for a training position, from vague to explicit: the piece to
+ * move, its target square, the PGN comment of the move and finally the
+ * move itself. Each step shows everything the earlier ones did. The more
+ * was given away, the lower the grade of the position.
+ *
+ * Exported API
+ * ------------
+ *   type HintStep / Hint
+ *   hintSteps(position)              – the steps available for a position, in order.
+ *   buildHint(position, n)           – what the first `n` steps show.
+ *   hintedGrade(position, grade, n)  – the grade of an answer after `n` steps.
+ */
+
+import { Chess, PieceSymbol } from "chess.js";
+import { BoardArrow, SquareHighlight } from "./parsePgnService";
+import { TrainingPosition } from "./repertoire";
+import { ReviewGrade } from "./scheduler";
+
+export type HintStep = 'piece' | 'square' | 'comment' | 'answer';
+
+export interface Hint {
+  highlights: SquareHighlight[];
+  arrows: BoardArrow[];
+  /** One line per step shown. */
+  lines: string[];
+}
+
+const PIECE_NAMES: Record<PieceSymbol, string> = {
+  p: 'pawn',
+  n: 'knight',
+  b: 'bishop',
+  r: 'rook',
+  q: 'queen',
+  k: 'king'
+};
+
+function expectedMove(position: TrainingPosition) {
+  try {
+    return new Chess(position.fen).move(position.moveToMake);
+  } catch {
+    return null;
+  }
+}
+
+function moveComment(position: TrainingPosition): string | undefined {
+  return [position.node?.commentBefore, position.node?.commentAfter].filter(Boolean).join(' ') || undefined;
+}
+
+/** The comment step is skipped for moves without a comment. */
+export function hintSteps(position: TrainingPosition): HintStep[] {
+  if (!expectedMove(position)) return [];
+  return moveComment(position) ? ['piece', 'square', 'comment', 'answer'] : ['piece', 'square', 'answer'];
+}
+
+export function buildHint(position: TrainingPosition, used: number): Hint {
+  const hint: Hint = { highlights: [], arrows: [], lines: [] };
+  const move = expectedMove(position);
+  if (!move) return hint;
+
+  for (const step of hintSteps(position).slice(0, used)) {
+    if (step === 'piece') {
+      hint.highlights.push({ square: move.from, color: 'yellow' });
+      hint.lines.push(`Move your ${PIECE_NAMES[move.piece]} on ${move.from}.`);
+    } else if (step === 'square') {
+      hint.highlights.push({ square: move.to, color: 'green' });
+      hint.lines.push(`It goes to ${move.to}.`);
+    } else if (step === 'comment') {
+      hint.lines.push(moveComment(position)!);
+    } else {
+      hint.highlights = [];
+      hint.arrows.push({ from: move.from, to: move.to, color: 'green' });
+      hint.lines.push(`The move is ${position.moveToMake}.`);
+    }
+  }
+
+  return hint;
+}
+
+/**
+ * Pointing at the piece or square, or showing the comment, makes a right
+ * answer "hard"; once the move was shown, the position counts as forgotten.
+ */
+export function hintedGrade(position: TrainingPosition, grade: ReviewGrade, used: number): ReviewGrade {
+  if (used === 0 || grade === 'again') return grade;
+  return hintSteps(position)[used - 1] === 'answer' ? 'again' : 'hard';
+}
@@ -0,0 +1,129 @@
+/*
+ * PGN Branch Buddy – Merging repertoire trees
+ * -------------------------------------------
+ * Teams keep chapters in separate files (1.e4 e5, Sicilian, French…). This
+ * module unions such trees into one: identical moves are merged, their
+ * comments, NAGs, arrows and highlights combined. Where the files disagree
+ * – a different main move in the same position, or contradicting move
+ * assessments – both are kept and a conflict is reported. The first tree
+ * wins the main-line order.
+ *
+ * Exported API
+ * ------------
+ *   type MergeConflict
+ *   mergeTrees(roots)  – one tree from trees that share a start position.
+ *   mergeGames(games)  – one game per distinct start position.
+ */
+
+import { Node, ParsedGame, sameSan } from "./parsePgnService";
+import { positionKey } from "./repertoireGraph";
+
+export interface MergeConflict {
+  /** Position where the trees disagree. */
+  fen: string;
+  /** Moves from the root to that position. */
+  path: string[];
+  message: string;
+}
+
+/** Distinct, non-empty comments of both sides, in order. */
+function mergeComment(a?: string, b?: string): string | undefined {
+  if (!a || !b || a === b) return a || b;
+  return a.includes(b) ? a : `${a} ${b}`;
+}
+
+function unionBy<T>(a: T[] | undefined, b: T[] | undefined, key: (item: T) => string): T[] | undefined {
+  if (!a?.length) return b?.length ? b : a;
+  if (!b?.length) return a;
+  const seen = new Set(a.map(key));
+  return [...a, ...b.filter(item => !seen.has(key(item)))];
+}
+
+// Merge `other` into a copy of `base`; both play the same move from the same position
+function mergeNode(base: Node, other: Node, path: string[], conflicts: MergeConflict[]): Node {
+  const merged: Node = {
+    ...base,
+    commentBefore: mergeComment(base.commentBefore, other.commentBefore),
+    commentAfter: mergeComment(base.commentAfter, other.commentAfter),
+    nags: unionBy(base.nags, other.nags, nag => nag),
+    commands: base.commands || other.commands ? { ...other.commands, ...base.commands } : undefined,
+    arrows: unionBy(base.arrows, other.arrows, arrow => `${arrow.from}${arrow.to}`),
+    highlights: unionBy(base.highlights, other.highlights, highlight => highlight.square),
+    children: [...base.children]
+  };
+  for (const field of ['commentBefore', 'commentAfter', 'nags', 'commands', 'arrows', 'highlights'] as const) {
+    if (merged[field] === undefined) delete merged[field];
+  }
+
+  // The move itself: "!" in one file and "?" in the other is worth a look
+  const moveNags = (nags?: string[]) => (nags ?? []).filter(nag => /^\$[1-6]$/.test(nag));
+  const baseNags = moveNags(base.nags);
+  const otherNags = moveNags(other.nags);
+  if (baseNags.length && otherNags.length && baseNags.join() !== otherNags.join()) {
+    conflicts.push({
+      fen: base.fen,
+      path,
+      message: `${base.move} is assessed differently (${baseNags.join(' ')} vs ${otherNags.join(' ')})`
+    });
+  }
+
+  // Main move after this one: the first tree keeps its choice
+  const baseMain = base.children[0];
+  const otherMain = other.children[0];
+  if (baseMain && otherMain && !sameSan(baseMain.move, otherMain.move)) {
+    conflicts.push({
+      fen: baseMain.fen,
+      path,
+      message: `Different main moves: ${baseMain.move} and ${otherMain.move} – keeping ${baseMain.move}, adding ${otherMain.move} as a variation`
+    });
+  }
+
+  for (const child of other.children) {
+    const index = merged.children.findIndex(existing => sameSan(existing.move, child.move));
+    if (index >= 0) {
+      merged.children[index] = mergeNode(merged.children[index], child, [...path, child.move], conflicts);
+    } else {
+      merged.children.push(child);
+    }
+  }
+  return merged;
+}
+
+/** Union of trees that start from the same position. Throws if they don't. */
+export function mergeTrees(roots: Node[]): { root: Node; conflicts: MergeConflict[] } {
+  if (roots.length === 0) throw new Error("Nothing to merge");
+
+  const start = positionKey(roots[0].fen);
+  if (roots.some(root => positionKey(root.fen) !== start)) {
+    throw new Error("Only trees with the same start position can be merged");
+  }
+
+  const conflicts: MergeConflict[] = [];
+  const root = roots.slice(1).reduce((merged, next) => mergeNode(merged, next, [], conflicts), roots[0]);
+  return { root, conflicts };
+}
+
+/**
+ * Merge every group of games that shares a start position into one game,
+ * keeping the headers of the group's first game.
+ */
+export function mergeGames(games: ParsedGame[]): { games: ParsedGame[]; conflicts: MergeConflict[] } {
+  const groups = new Map<string, ParsedGame[]>();
+  for (const game of games) {
+    const key = positionKey(game.root.fen);
+    groups.set(key, [...(groups.get(key) ?? []), game]);
+  }
+
+  const conflicts: MergeConflict[] = [];
+  const merged = [...groups.values()].map(group => {
+    const result = mergeTrees(group.map(game => game.root));
+    conflicts.push(...result.conflicts);
+    return {
+      headers: group[0].headers,
+      root: result.root,
+      diagnostics: group.flatMap(game => game.diagnostics)
+    };
+  });
+
+  return { games: merged, conflicts };
+}
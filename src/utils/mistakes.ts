@@ -0,0 +1,88 @@
+/*
+ * PGN Branch Buddy – Mistake queue
+ * --------------------------------
+ * Positions the user got wrong, derived from the move log: a position is
+ * an open mistake from its latest wrong move until it has been answered
+ * correctly `CLEAR_STREAK` times in a row since. Nothing else is stored, so
+ * the queue survives reloads and mistakes made anywhere in training count.
+ *
+ * Exported API
+ * ------------
+ *   type Mistake
+ *   CLEAR_STREAK
+ *   openMistakes(attempts, streak)      – open mistakes, oldest first.
+ *   mistakePosition(mistake)            – TrainingPosition to drill it.
+ *   advanceQueue(queue, correct, streak) – the queue after answering its head.
+ */
+
+import { MoveAttempt } from "./deckStorage";
+import { TrainingPosition } from "./repertoire";
+
+export interface Mistake {
+  /** `TrainingPosition.key` of the position. */
+  key: string;
+  fen: string;
+  variationId?: string;
+  moveNumber: number;
+  expected: string;
+  /** The wrong move of the latest mistake. */
+  played: string;
+  missedAt: number;
+  /** Correct answers in a row since then. */
+  streak: number;
+}
+
+/** Correct answers in a row that take a position off the queue. */
+export const CLEAR_STREAK = 3;
+
+/** `attempts` in log order (oldest first), as `listAttempts` returns them. */
+export function openMistakes(attempts: MoveAttempt[], streak = CLEAR_STREAK): Mistake[] {
+  const open = new Map<string, Mistake>();
+
+  for (const attempt of attempts) {
+    const mistake = open.get(attempt.key);
+    if (!attempt.correct) {
+      // Re-insert, so the order follows the latest miss
+      open.delete(attempt.key);
+      open.set(attempt.key, {
+        key: attempt.key,
+        fen: attempt.fen,
+        variationId: attempt.variationId,
+        moveNumber: attempt.moveNumber,
+        expected: attempt.expected,
+        played: attempt.played,
+        missedAt: attempt.attemptedAt,
+        streak: 0
+      });
+    } else if (mistake) {
+      if (mistake.streak + 1 >= streak) open.delete(attempt.key);
+      else open.set(attempt.key, { ...mistake, streak: mistake.streak + 1 });
+    }
+  }
+
+  return [...open.values()];
+}
+
+export function mistakePosition(mistake: Mistake): TrainingPosition {
+  return {
+    fen: mistake.fen,
+    key: mistake.key,
+    variationId: mistake.variationId,
+    moveNumber: mistake.moveNumber,
+    moveToMake: mistake.expected,
+    description: `Last time you played ${mistake.played} instead of ${mistake.expected}`
+  };
+}
+
+/**
+ * Answer the first mistake of `queue`. It leaves the queue once its streak
+ * reaches `streak`; otherwise it goes to the back, with its streak reset
+ * after a wrong answer.
+ */
+export function advanceQueue(queue: Mistake[], correct: boolean, streak = CLEAR_STREAK): Mistake[] {
+  const [head, ...rest] = queue;
+  if (!head) return queue;
+
+  const answered = { ...head, streak: correct ? head.streak + 1 : 0 };
+  return answered.streak >= streak ? rest : [...rest, answered];
+}
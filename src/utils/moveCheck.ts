@@ -0,0 +1,57 @@
+/*
+ * PGN Branch Buddy – Checking training moves
+ * ------------------------------------------
+ * A training position expects the main move of the repertoire, but a
+ * different move isn't necessarily wrong: the user may also play a side
+ * line there, or pick a move order that transposes back into the
+ * repertoire. Both are looked up in the repertoire graph, so alternatives
+ * reached by other move orders count as well.
+ *
+ * Exported API
+ * ------------
+ *   type MoveVerdict / MoveCheck
+ *   checkMove(position, played, graph) – how `played` relates to the repertoire.
+ */
+
+import { Chess } from "chess.js";
+import { sameSan } from "./parsePgnService";
+import { RepertoireGraph, positionKey } from "./repertoireGraph";
+import { TrainingPosition } from "./repertoire";
+
+/**
+ * `main` – the expected move; `alternative` – another repertoire move in
+ * this position; `transposition` – leads to a position of the repertoire.
+ */
+export type MoveVerdict = 'main' | 'alternative' | 'transposition' | 'wrong';
+
+export interface MoveCheck {
+  verdict: MoveVerdict;
+  /** Feedback for the two "right, but not the main move" verdicts. */
+  message?: string;
+}
+
+/** Without a graph only the main move is recognised. Throws on illegal moves. */
+export function checkMove(position: TrainingPosition, played: string, graph?: RepertoireGraph): MoveCheck {
+  const main = position.moveToMake;
+  if (sameSan(played, main)) return { verdict: 'main' };
+  if (!graph) return { verdict: 'wrong' };
+
+  const moves = graph.positions.get(position.key)?.moves ?? [];
+  if (moves.some(move => sameSan(move.move, played))) {
+    return {
+      verdict: 'alternative',
+      message: `${played} is also in your repertoire, but the main move is ${main}`
+    };
+  }
+
+  const chess = new Chess(position.fen);
+  chess.move(played);
+  if (graph.positions.has(positionKey(chess.fen()))) {
+    return {
+      verdict: 'transposition',
+      message: `${played} transposes into your repertoire, but the main move is ${main}`
+    };
+  }
+
+  return { verdict: 'wrong' };
+}
@@ -0,0 +1,32 @@
+// Runs `parseGames` off the main thread, see backgroundParse.ts.
+
+import { parseGames, PgnParseError, ParsedGame, ParseDiagnostic } from "./parsePgnService";
+
+export interface ParseRequest {
+  pgn: string;
+  strict?: boolean;
+}
+
+export type ParseResponse =
+  | { type: "progress"; done: number; total: number }
+  | { type: "done"; games: ParsedGame[] }
+  | { type: "error"; message: string; diagnostics?: ParseDiagnostic[] };
+
+const reply = (response: ParseResponse) => self.postMessage(response);
+
+self.onmessage = (event: MessageEvent<ParseRequest>) => {
+  const { pgn, strict } = event.data;
+  try {
+    const games = parseGames(pgn, {
+      strict,
+      onProgress: (done, total) => reply({ type: "progress", done, total })
+    });
+    reply({ type: "done", games });
+  } catch (err) {
+    reply({
+      type: "error",
+      message: err instanceof Error ? err.message : String(err),
+      diagnostics: err instanceof PgnParseError ? err.diagnostics : undefined
+    });
+  }
+};
@@ -8,14 +8,23 @@
  *
  * Exported API
  * ------------
- *   type Node      – one position in the repertoire tree.
- *   parseGame(pgn) – returns the root Node for the first game in the PGN.
+ *   type Node       – one position in the repertoire tree.
+ *   type ParsedGame – header tags + root Node + diagnostics of one game.
+ *   type ParseDiagnostic / class PgnParseError – problems found while parsing.
+ *   parseGames(pgn) – returns one ParsedGame per game in the PGN.
+ *   parseGame(pgn)  – returns the root Node for the first game in the PGN.
+ *   gameTitle(game) – human readable chapter title built from the headers.
+ *   startingFen(h)  – root FEN of a game, honouring [SetUp "1"] / [FEN "…"].
+ *   nagGlyph(nag)   – "$1" → "!", "$14" → "+=", … for display.
+ *   sameSan(a, b)   – compares two SANs, promotion piece included.
  *
  * Typical usage
  * -------------
- *   import { parseGame } from "@/utils/parsePgnService";
+ *   import { parseGame, parseGames } from "@/utils/parsePgnService";
  *   const root = parseGame(pgnString);
  *   // root.children gives you the first ply, each node its variations, etc.
+ *   const chapters = parseGames(studyExport);
+ *   // chapters[3].headers.Event, chapters[3].root, …
  *
  * Vitest quick-check (put in a separate *.test.ts file):
  *   import { parseGame } from "../parsePgnService";
@@ -26,7 +35,7 @@
  */
 
 import { parse as parsePGN } from "@mliebelt/pgn-parser";
-import { Chess } from "chess.js";
+import { Chess, DEFAULT_POSITION, Move } from "chess.js";
 
 // ——— normalise every possible token shape to SAN ———
 function sanFrom(token: any): string | undefined {
@@ -40,7 +49,59 @@ function sanFrom(token: any): string | undefined {
   return token.san || token.move;
 }
 
+/** The bits of a @mliebelt/pgn-parser game object we rely on. */
+interface PgnGameAst {
+  tags?: Record<string, unknown>;
+  gameComment?: { comment?: string } | null;
+  moves: unknown[];
+}
+
+/** Annotation fields of a @mliebelt/pgn-parser move token. */
+interface PgnMoveAst {
+  commentMove?: string | null;
+  commentAfter?: string | null;
+  nag?: string[] | null;
+  commentDiag?: Record<string, unknown> | null;
+}
+
+// @mliebelt/pgn-parser renames some well-known [%cmd …] annotations.
+const COMMAND_NAMES: Record<string, string> = {
+  colorArrows: "cal",
+  colorFields: "csl",
+};
+
+// Colour letters of [%cal] / [%csl] entries.
+const ANNOTATION_COLORS: Record<string, AnnotationColor> = {
+  G: "green", R: "red", Y: "yellow", B: "blue",
+};
+
+// Glyphs for the NAGs that show up in practice; everything else stays "$n".
+const NAG_GLYPHS: Record<string, string> = {
+  $1: "!", $2: "?", $3: "!!", $4: "??", $5: "!?", $6: "?!", $7: "□",
+  $10: "=", $13: "∞", $14: "+=", $15: "=+", $16: "+/-", $17: "-/+",
+  $18: "+-", $19: "-+", $22: "⨀", $23: "⨀", $32: "⟳", $33: "⟳",
+  $36: "↑", $37: "↑", $40: "→", $41: "→", $132: "⇆", $133: "⇆",
+  $138: "⊕", $139: "⊕", $140: "∆", $146: "N",
+};
+
 const GAME_RESULTS = ["1-0", "0-1", "1/2-1/2", "*"];
+const TAG_PAIR = /^\[\s*\w+\s*"(?:[^"\\]|\\.)*"\s*\]/;
+
+/** The four Lichess annotation colours (G, R, Y, B in `[%cal]` / `[%csl]`). */
+export type AnnotationColor = "green" | "red" | "yellow" | "blue";
+
+/** An arrow from a `[%cal Ge2e4]` command. */
+export interface BoardArrow {
+  from: string;
+  to: string;
+  color: AnnotationColor;
+}
+
+/** A circled square from a `[%csl Rd5]` command. */
+export interface SquareHighlight {
+  square: string;
+  color: AnnotationColor;
+}
 
 /** One node (position) in the game tree. */
 export interface Node {
@@ -50,59 +111,411 @@ export interface Node {
   move: string;
   /** Each child array represents one variation branch. */
   children: Node[];
+  /** Comment written before the move (usually at the start of a variation). */
+  commentBefore?: string;
+  /** Comment written after the move; on the root it is the game comment. */
+  commentAfter?: string;
+  /** Numeric Annotation Glyphs of the move, e.g. `["$1", "$14"]`. */
+  nags?: string[];
+  /** Raw `[%cmd value]` annotations from the comments, e.g. `{ cal: "Ge2e4", clk: "0:05:00" }`. */
+  commands?: Record<string, string>;
+  /** `[%cal]` arrows for the position after the move. */
+  arrows?: BoardArrow[];
+  /** `[%csl]` square highlights for the position after the move. */
+  highlights?: SquareHighlight[];
+}
+
+/** A problem found while parsing, located in the original PGN text. */
+export interface ParseDiagnostic {
+  severity: "error" | "warning";
+  message: string;
+  /** 1-based line/column of `token` in the PGN text, when known. */
+  line?: number;
+  column?: number;
+  /** The offending text, e.g. the illegal SAN. */
+  token?: string;
+  /** Position in which the move was tried. */
+  fen?: string;
+  /** Index of the game the problem belongs to. */
+  game?: number;
+}
+
+/** Thrown when the PGN cannot be parsed at all (or illegal SAN in strict mode). */
+export class PgnParseError extends Error {
+  constructor(message: string, public diagnostics: ParseDiagnostic[]) {
+    super(message);
+    this.name = "PgnParseError";
+  }
+}
+
+export interface ParseOptions {
+  /** Throw a PgnParseError on the first illegal move instead of skipping it. */
+  strict?: boolean;
+  /** Called every few hundred moves while the trees are built. */
+  onProgress?: (movesDone: number, movesTotal: number) => void;
+}
+
+/** One game (study chapter) of a PGN file. */
+export interface ParsedGame {
+  /** PGN header tags, e.g. `{ Event: "Najdorf", Result: "*" }`. */
+  headers: Record<string, string>;
+  /** Root of the move tree; `root.move` is always empty. */
+  root: Node;
+  /** Skipped moves and cleaned-up syntax in this game. */
+  diagnostics: ParseDiagnostic[];
+}
+
+/** A move token of the PGN text, in textual (= tree-building) order. */
+interface MoveToken {
+  text: string;
+  offset: number;
+}
+
+/** A clean-up diagnostic and the offset it was found at. */
+interface LocatedDiagnostic {
+  offset: number;
+  diagnostic: ParseDiagnostic;
+}
+
+/** Shared state while the trees of one PGN text are built. */
+interface BuildContext {
+  tokens: MoveToken[];
+  cursor: number;
+  lines: number[];
+  game: number;
+  diagnostics: ParseDiagnostic[];
+  strict: boolean;
+  onProgress?: ParseOptions["onProgress"];
+  /** The one board all moves are played on, see `buildTree`. */
+  board: Chess;
 }
 
-// Cleans a raw PGN so @mliebelt/pgn-parser can digest it.
-function cleanPgn(raw: string): string {
+// Moves between two progress reports
+const PROGRESS_STEP = 500;
+
+// Cleans a raw PGN so @mliebelt/pgn-parser can digest it. Every step keeps
+// the text length and line breaks intact, so parser locations and our own
+// token offsets still point into the text the user uploaded.
+function cleanPgn(raw: string, diagnostics: LocatedDiagnostic[]): string {
   let out = raw;
+  const lines = lineStarts(raw);
 
-  // 1. strip all well-formed { … } comments and NAGs
-  out = out.replace(/\{[^}]*\}/gms, "").replace(/\$\d+/g, "");
+  // 1. NAGs belong to the move before them, but the parser only accepts
+  //    them *before* a comment: "e4 {text} $1" → "e4 $1{text}". Line
+  //    breaks between them move behind the comment, so the lines after it
+  //    keep their numbers.
+  out = out.replace(/(\{[^}]*\})(\s*)((?:\$\d+\s*)+)/g, (match, comment: string, _ws, nags: string) => {
+    const moved = `${nags.trim()}${comment}`;
+    const newlines = match.split("\n").length - moved.split("\n").length;
+    return moved + "\n".repeat(newlines).padEnd(match.length - moved.length, " ");
+  });
 
-  // 2 · handle unmatched "{"
+  // 2 · handle unmatched "{" (no "}" before the next "{" or EOF)
   // keep the move-number token that follows the bad comment
-  out = out.replace(/\{[^}]*?(\d+\.(?:\.\.)?)/gms, "$1");
-  out = out.replace(/\{[^}]*$/gms, "");                            // comment that runs to EOF
+  out = out.replace(/\{([^{}]*)(?=\{|$)/g, (match, body: string, offset: number) => {
+    diagnostics.push({
+      offset,
+      diagnostic: {
+        severity: "warning",
+        message: "Unterminated comment – ignored up to the next move number",
+        token: "{",
+        ...locate(lines, offset),
+      },
+    });
+    const moveNumber = body.search(/\d+\.(?:\.\.)?/);
+    if (moveNumber === -1) return blank(match);        // comment that runs to EOF
+    return blank(match.slice(0, moveNumber + 1)) + body.slice(moveNumber);
+  });
 
   // 3. collapse any 4-plus dot sequences like "5....." → "5..."
-  out = out.replace(/\.{4,}/g, "...");
+  return out.replace(/\.{4,}/g, (dots) => "..." + " ".repeat(dots.length - 3));
+}
+
+// Replace text by spaces, keeping line breaks (and thus line numbers).
+function blank(text: string): string {
+  return text.replace(/[^\n]/g, " ");
+}
+
+/** Offsets at which each line of `text` starts. */
+function lineStarts(text: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < text.length; i++) if (text[i] === "\n") starts.push(i + 1);
+  return starts;
+}
+
+/** Index of the last entry of the ascending `sorted` that is ≤ `value`; -1 if there is none. */
+function lastAtOrBefore(sorted: number[], value: number): number {
+  let low = 0;
+  let high = sorted.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (sorted[mid] <= value) low = mid + 1;
+    else high = mid - 1;
+  }
+  return high;
+}
+
+/** 1-based line/column of an offset. */
+function locate(lines: number[], offset: number): { line: number; column: number } {
+  const line = Math.max(0, lastAtOrBefore(lines, offset));
+  return { line: line + 1, column: offset - lines[line] + 1 };
+}
 
-  // 4. shrink double spaces
-  return out.replace(/\s{2,}/g, " ").trim();
+/** Index of the game an offset belongs to: the number of games ended before it. */
+function gameAt(gameEnds: number[], offset: number): number {
+  return lastAtOrBefore(gameEnds, offset - 1) + 1;
 }
 
 /**
- * Parse the **first** game found in a PGN string and return a full
- * move-/variation-tree. Throws if the PGN is empty or contains illegal SAN.
+ * List the SAN tokens of the (cleaned) PGN in textual order, skipping tag
+ * pairs, comments, NAGs, move numbers and results. The parser visits moves
+ * in the same order, which lets us map AST moves back to text positions.
+ * `gameEnds` are the offsets of the result tokens that close each game.
  */
-export function parseGame(pgn: string): Node {
-  const sanitized = cleanPgn(pgn);
-  try {
-    const games = parsePGN(sanitized, { startRule: "games" });
-    if (!Array.isArray(games) || !games.length) throw new Error("No game object returned");
-    
-    const chess = new Chess();
-    const root: Node = { fen: chess.fen(), move: "", children: [] };
+function scanMoveTokens(text: string): { tokens: MoveToken[]; gameEnds: number[] } {
+  const tokens: MoveToken[] = [];
+  const gameEnds: number[] = [];
+  let i = 0;
 
-    if (import.meta.env.DEV) console.table((games[0] as any).moves.slice(0, 8));
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === "{") {
+      const end = text.indexOf("}", i);
+      i = end === -1 ? text.length : end + 1;
+    } else if (ch === ";") {
+      const end = text.indexOf("\n", i);
+      i = end === -1 ? text.length : end + 1;
+    } else if (ch === "[") {
+      // tag pair – the quoted value may contain "]" or ";"
+      const tag = text.slice(i).match(TAG_PAIR);
+      i += tag ? tag[0].length : 1;
+    } else if (/[\s()]/.test(ch)) {
+      i++;
+    } else {
+      const word = text.slice(i).match(/^[^\s(){};[]+/)![0];
+      if (GAME_RESULTS.includes(word)) {
+        gameEnds.push(i);
+      } else if (!word.startsWith("$")) {
+        const san = word.match(/^(\d+\.+)?(.*)$/)!;
+        if (san[2]) tokens.push({ text: san[2], offset: i + (san[1]?.length ?? 0) });
+      }
+      i += word.length;
+    }
+  }
+  return { tokens, gameEnds };
+}
+
+/**
+ * SAN equality that ignores check marks, annotations and 0-0 spelled with
+ * zeros; the promotion piece is compared ("e8=Q" isn't "e8=N").
+ */
+export function sameSan(a: string, b: string): boolean {
+  const norm = (san: string) => san.replace(/[+#!?]/g, "").replace(/0/g, "O");
+  return norm(a) === norm(b);
+}
 
-    buildTree((games[0] as any).moves, chess, root);
-    return root;
+/**
+ * Parse **every** game found in a PGN string (e.g. all chapters of a Lichess
+ * study export) and return one move-/variation-tree per game.
+ * Illegal moves are skipped and reported in `game.diagnostics`; throws a
+ * PgnParseError if the PGN is empty or not parseable (or, with
+ * `{ strict: true }`, on the first illegal move).
+ */
+export function parseGames(pgn: string, options: ParseOptions = {}): ParsedGame[] {
+  const cleanups: LocatedDiagnostic[] = [];
+  const sanitized = cleanPgn(pgn, cleanups);
+  const lines = lineStarts(sanitized);
+  const { tokens, gameEnds } = scanMoveTokens(sanitized);
+
+  let games: PgnGameAst[];
+  try {
+    games = parsePGN(sanitized, { startRule: "games" }) as PgnGameAst[];
   } catch (err) {
     // 👉 log once for easier debugging in the browser console
     console.error("PGN parse error →", err);
-    console.info("=== Sanitised PGN start ===\n" + sanitized.slice(0, 400) + "…");
-    throw err;               // keep existing error flow
+    throw syntaxError(err, gameEnds);
+  }
+  if (!Array.isArray(games) || !games.length || !sanitized.trim()) {
+    throw new PgnParseError("No game found in the PGN", [
+      { severity: "error", message: "No game found in the PGN" },
+    ]);
+  }
+
+  if (import.meta.env.DEV) console.table((games[0] as any).moves.slice(0, 8));
+
+  // Clean-up warnings belong to the game whose text contains them
+  const gameDiagnostics = games.map((): ParseDiagnostic[] => []);
+  for (const { offset, diagnostic } of cleanups) {
+    const game = Math.min(gameAt(gameEnds, offset), games.length - 1);
+    gameDiagnostics[game].push({ ...diagnostic, game });
+  }
+
+  const ctx: BuildContext = {
+    tokens,
+    cursor: 0,
+    lines,
+    game: 0,
+    diagnostics: [],
+    strict: !!options.strict,
+    onProgress: options.onProgress,
+    board: new Chess()
+  };
+  ctx.onProgress?.(0, tokens.length);
+
+  const parsed = games.map((game, index) => {
+    ctx.game = index;
+    ctx.diagnostics = gameDiagnostics[index];
+
+    const headers = normaliseTags(game.tags);
+    ctx.board.load(startingFen(headers));
+    const root: Node = { fen: ctx.board.fen(), move: "", children: [] };
+    if (game.gameComment?.comment) root.commentAfter = game.gameComment.comment;
+    buildTree(game.moves, root.fen, root, ctx);
+    return { headers, root, diagnostics: ctx.diagnostics };
+  });
+  ctx.onProgress?.(tokens.length, tokens.length);
+  return parsed;
+}
+
+function syntaxError(err: unknown, gameEnds: number[]): PgnParseError {
+  const { location, found } = (err ?? {}) as {
+    location?: { start: { offset: number; line: number; column: number } };
+    found?: string | null;
+  };
+  const message = location
+    ? `Unexpected ${found ? `"${found}"` : "end of input"}`
+    : String((err as Error)?.message ?? err);
+
+  return new PgnParseError(
+    location ? `${message} at line ${location.start.line}, column ${location.start.column}` : message,
+    [{
+      severity: "error",
+      message,
+      token: found ?? undefined,
+      line: location?.start.line,
+      column: location?.start.column,
+      game: location ? gameAt(gameEnds, location.start.offset) : undefined,
+    }]
+  );
+}
+
+/**
+ * Parse the **first** game found in a PGN string and return a full
+ * move-/variation-tree. Use `parseGames` to get the diagnostics.
+ */
+export function parseGame(pgn: string, options: ParseOptions = {}): Node {
+  return parseGames(pgn, options)[0].root;
+}
+
+/**
+ * Root position of a game: the `[FEN]` header (endgame studies, Lichess
+ * chapters set up from a position) or the standard initial position.
+ * `[SetUp "0"]` explicitly disables the FEN header.
+ */
+export function startingFen(headers: Record<string, string>): string {
+  if (headers.FEN && headers.SetUp !== "0") return headers.FEN.trim();
+  return DEFAULT_POSITION;
+}
+
+/**
+ * Title for a game in a chapter list: Lichess `ChapterName`, then `Event`,
+ * then the players, falling back to "Chapter n".
+ */
+export function gameTitle(game: ParsedGame, index = 0): string {
+  const { ChapterName, Event, White, Black } = game.headers;
+  if (ChapterName) return ChapterName;
+  if (Event && Event !== "?") return Event;
+  if (White && Black && (White !== "?" || Black !== "?")) return `${White} – ${Black}`;
+  return `Chapter ${index + 1}`;
+}
+
+// The parser returns typed tag values (Date objects, numbers, time controls);
+// we only need the raw strings.
+function normaliseTags(tags: PgnGameAst["tags"]): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const [key, value] of Object.entries(tags ?? {})) {
+    if (key === "messages" || value == null) continue;
+    if (typeof value === "string" || typeof value === "number") headers[key] = String(value);
+    else if (Array.isArray(value)) headers[key] = value.map(tagValue).join(":");
+    else headers[key] = tagValue(value);
+  }
+  return headers;
+}
+
+/** Display glyph for a NAG token ("$1" → "!"); unknown NAGs are returned as-is. */
+export function nagGlyph(nag: string): string {
+  return NAG_GLYPHS[nag] ?? nag;
+}
+
+/** Copy comments, NAGs and [%cmd] annotations from an AST move onto `node`. */
+function attachAnnotations(node: Node, token: PgnMoveAst): void {
+  if (token.commentMove) node.commentBefore = token.commentMove;
+  if (token.commentAfter) node.commentAfter = token.commentAfter;
+  if (token.nag?.length) node.nags = [...token.nag];
+
+  const commands: Record<string, string> = {};
+  for (const [key, value] of Object.entries(token.commentDiag ?? {})) {
+    if (key === "comment" || value == null) continue;
+    commands[COMMAND_NAMES[key] ?? key] = Array.isArray(value) ? value.join(",") : String(value);
+  }
+  if (Object.keys(commands).length) node.commands = commands;
+
+  const arrows = parseArrows(commands.cal);
+  if (arrows.length) node.arrows = arrows;
+  const highlights = parseHighlights(commands.csl);
+  if (highlights.length) node.highlights = highlights;
+}
+
+/** "Ge2e4,Rd2d4" → arrows; malformed entries are ignored. */
+export function parseArrows(cal: string | undefined): BoardArrow[] {
+  const arrows: BoardArrow[] = [];
+  for (const entry of cal?.split(",") ?? []) {
+    const m = entry.trim().match(/^([GRYB])([a-h][1-8])([a-h][1-8])$/);
+    if (m) arrows.push({ color: ANNOTATION_COLORS[m[1]], from: m[2], to: m[3] });
   }
+  return arrows;
 }
 
-/** Recursively copy the PGN-AST into our own Node tree structure. */
+/** "Rd5,Ge4" → square highlights; malformed entries are ignored. */
+export function parseHighlights(csl: string | undefined): SquareHighlight[] {
+  const highlights: SquareHighlight[] = [];
+  for (const entry of csl?.split(",") ?? []) {
+    const m = entry.trim().match(/^([GRYB])([a-h][1-8])$/);
+    if (m) highlights.push({ color: ANNOTATION_COLORS[m[1]], square: m[2] });
+  }
+  return highlights;
+}
+
+function tagValue(value: unknown): string {
+  if (value && typeof value === "object" && "value" in value) return String(value.value);
+  return String(value);
+}
+
+/** Play `san` on the shared board; null if it is illegal there. */
+function playSan(san: string, ctx: BuildContext): Move | null {
+  try {
+    return ctx.board.move(san, { strict: true });
+  } catch {
+    // chess.js ≥1.0 throws on illegal moves, leaving the board untouched
+    return null;
+  }
+}
+
+/**
+ * Recursively copy the PGN-AST into our own Node tree structure. All moves
+ * are played on the one board in `ctx`, which stands at `fen` on entry and
+ * is back there on return: a RAV takes back the move it replaces, is
+ * walked, and the move is played again; a line undoes its own moves when
+ * it ends.
+ */
 function buildTree(
   moves: any[],
-  board: Chess,
-  parent: Node
+  fen: string,
+  parent: Node,
+  ctx: BuildContext
 ): void {
   let currentParent = parent;
+  let depth = 0;
 
   for (const m of moves) {
     const san = sanFrom(m);
@@ -111,33 +524,57 @@ function buildTree(
       continue;
     }
 
-    // Debug logging to see what's happening
-    if (import.meta.env.DEV) {
-      console.log("Processing move:", { token: m, san, currentFen: board.fen() });
-    }
+    const token = ctx.tokens[ctx.cursor];
+    ctx.cursor++;
+    if (ctx.onProgress && ctx.cursor % PROGRESS_STEP === 0) ctx.onProgress(ctx.cursor, ctx.tokens.length);
 
-    const nextBoard = new Chess(board.fen());
-    const legal = nextBoard.move(san, { strict: true });
-    if (!legal) {
-      console.warn(
-        "⚠️  Skipping illegal SAN →", san,
-        "in FEN:", board.fen()
-      );
-      continue;              // ignore the bad token, carry on
+    const played = playSan(san, ctx);
+    let node: Node | undefined;
+    if (played) {
+      // Store chess.js' own SAN, so "exf1=N" and "exf1=N+" compare equal later on
+      node = { fen, move: played.san, children: [] };
+      attachAnnotations(node, m);
+      currentParent.children.push(node);
+    } else {
+      reportIllegal(san, token, fen, ctx);
     }
 
-    const node: Node = { fen: board.fen(), move: san, children: [] };
-    currentParent.children.push(node);
-
-    // 3️⃣ Recurse into each variation branch (if any).
+    // A RAV replaces the move it follows, so it starts from the same
+    // position and becomes a sibling of `node` – which also keeps it when
+    // `node` is illegal.
     if (m.variations?.length) {
+      if (played) ctx.board.undo();
       for (const variation of m.variations) {
-        buildTree(variation, new Chess(nextBoard.fen()), node);
+        buildTree(variation, fen, currentParent, ctx);
       }
+      if (played) ctx.board.move(played.san);
     }
 
-    // 4️⃣ Continue down the main line.
-    board.load(nextBoard.fen());
-    currentParent = node;
+    // Continue down the main line
+    if (played) {
+      fen = played.after;
+      currentParent = node;
+      depth++;
+    }
   }
-}
\ No newline at end of file
+
+  for (let i = 0; i < depth; i++) ctx.board.undo();
+}
+
+function reportIllegal(san: string, token: MoveToken | undefined, fen: string, ctx: BuildContext): void {
+  const location = token && sameSan(token.text, san) ? locate(ctx.lines, token.offset) : {};
+  const diagnostic: ParseDiagnostic = {
+    severity: "error",
+    message: `Illegal move "${san}" – skipped`,
+    token: san,
+    fen,
+    game: ctx.game,
+    ...location,
+  };
+  ctx.diagnostics.push(diagnostic);
+
+  if (ctx.strict) {
+    const where = diagnostic.line ? ` at line ${diagnostic.line}, column ${diagnostic.column}` : "";
+    throw new PgnParseError(`Illegal SAN detected: "${san}"${where}`, [diagnostic]);
+  }
+}
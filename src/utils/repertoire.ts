@@ -0,0 +1,351 @@
+/*
+ * PGN Branch Buddy – Repertoire model
+ * -----------------------------------
+ * The one domain model of a loaded deck: the parsed game trees, the lines
+ * (variations) derived from them, the transposition graph across all of
+ * them, and the training positions of a line. Components and the scheduler
+ * work on these types only; `parsePgnService` is the only parser.
+ *
+ * Exported API
+ * ------------
+ *   type Repertoire / Variation / TrainingPosition
+ *   buildRepertoire(games)                  – trees → lines + graph.
+ *   extractVariationsFromTree(root)         – lines of one tree, main line first.
+ *   extractVariationsFromGames(games)       – lines of several chapters.
+ *   createTrainingPositions(line, color, g) – the user's moves of one line.
+ *   plyInfo / formatMoves / moveSquares     – move numbering and display helpers.
+ */
+
+import { Node, ParsedGame, gameTitle } from "./parsePgnService";
+import { Chess } from "chess.js";
+import { RepertoireGraph, buildRepertoireGraph, positionKey } from "./repertoireGraph";
+import { lineId, dedupeIds } from "./contentId";
+import { EcoOpening, classifyOpening } from "./eco";
+
+export interface Variation {
+  /** Derived from the start position and the moves – stable across re-imports. */
+  id: string;
+  /** "Main Line", or the branch point and first moves: "after 5...a6: 6.Be3 e5 7.Nb3". */
+  name: string;
+  moves: string[];
+  /** Tree nodes behind `moves` (same order), carrying comments and NAGs. */
+  nodes: Node[];
+  /** Position the line starts from (the game's root FEN). */
+  startFen: string;
+  mainline: boolean;
+  /** Deepest named opening the line reaches, from the bundled ECO table. */
+  opening?: EcoOpening;
+  /** Title of the game/chapter the line comes from (multi-game PGNs only). */
+  chapter?: string;
+  /** Earlier line this one transposes into, and the ply (0-based) where it does. */
+  transposesTo?: { variationId: string; ply: number };
+  /**
+   * Plies (0-based) an earlier line already plays from the same position,
+   * reached there by another move order. They are trained in that line only.
+   */
+  sharedPlies?: number[];
+}
+
+export interface TrainingPosition {
+  fen: string;
+  /** Line the position was taken from; absent in whole-tree drills. */
+  variationId?: string;
+  /** Full-move number of `moveToMake`. */
+  moveNumber: number;
+  moveToMake: string;
+  responseMove?: string;
+  description: string;
+  /** Repertoire node of `moveToMake` – its comments explain the move. */
+  node?: Node;
+  /** Repertoire node of `responseMove`. */
+  responseNode?: Node;
+  /** `positionKey` of `fen` – identical for every transposition of the position. */
+  key: string;
+  /** Other move orders of the repertoire that reach the same position. */
+  otherPaths?: string[][];
+}
+
+/** A loaded deck: its game trees and everything derived from them. */
+export interface Repertoire {
+  games: ParsedGame[];
+  /** Every line of every game, main lines first. */
+  variations: Variation[];
+  /** Positions of all games, merged across transpositions. */
+  graph: RepertoireGraph;
+}
+
+export function buildRepertoire(games: ParsedGame[]): Repertoire {
+  return {
+    games,
+    variations: extractVariationsFromGames(games),
+    graph: buildRepertoireGraph(games.map(game => game.root))
+  };
+}
+
+export function extractVariationsFromTree(root: Node): Variation[] {
+  const variations: Variation[] = [];
+  
+  // Extract main line
+  const mainLine = extractMainLine(root);
+  if (mainLine.length > 0) {
+    variations.push({
+      id: lineId(root.fen, mainLine.map(n => n.move)),
+      name: `Main Line`,
+      moves: mainLine.map(n => n.move),
+      nodes: mainLine,
+      startFen: root.fen,
+      mainline: true,
+      opening: classifyOpening(root.fen, mainLine.map(n => n.move))
+    });
+  }
+  
+  // Extract all side variations
+  extractSideVariations(root, [], variations, root.fen);
+  
+  return markTranspositions(dedupeIds(variations));
+}
+
+// Flattens several chapters into one deck. A line that appears in two
+// chapters keeps its id in the first one and gets a suffix in the others.
+export function extractVariationsFromGames(games: ParsedGame[]): Variation[] {
+  if (games.length === 1) return extractVariationsFromTree(games[0].root);
+
+  const variations = games.flatMap((game, index) =>
+    extractVariationsFromTree(game.root).map(variation => ({
+      ...variation,
+      chapter: gameTitle(game, index),
+      transposesTo: undefined,
+      sharedPlies: undefined
+    }))
+  );
+  
+  // Chapters often transpose into each other (1.d4 Nf6 2.c4 e6 vs 1.c4 e6 2.d4 Nf6)
+  return markTranspositions(dedupeIds(variations));
+}
+
+/**
+ * Flag every line that reaches a position already reached by an earlier
+ * line through a different move order, and the moves it then shares with
+ * that line. Lines are checked in order, so the main line is never the one
+ * marked.
+ */
+function markTranspositions(variations: Variation[]): Variation[] {
+  const firstSeen = new Map<string, { variationId: string; path: string }>();
+  const firstPlayed = new Map<string, { variationId: string; path: string }>();
+  
+  for (const variation of variations) {
+    variation.nodes.forEach((node, ply) => {
+      const key = `${positionKey(node.fen)} ${node.move}`;
+      const path = variation.moves.slice(0, ply).join(' ');
+      const seen = firstPlayed.get(key);
+      
+      if (!seen) {
+        firstPlayed.set(key, { variationId: variation.id, path });
+      } else if (seen.variationId !== variation.id && seen.path !== path) {
+        variation.sharedPlies = [...(variation.sharedPlies ?? []), ply];
+      }
+    });
+    
+    const fens = [...variation.nodes.slice(1).map(n => n.fen), fenAfterLine(variation)];
+    
+    fens.forEach((fen, ply) => {
+      const key = positionKey(fen);
+      const path = variation.moves.slice(0, ply + 1).join(' ');
+      const seen = firstSeen.get(key);
+      
+      if (!seen) {
+        firstSeen.set(key, { variationId: variation.id, path });
+      } else if (!variation.transposesTo && seen.variationId !== variation.id && seen.path !== path) {
+        variation.transposesTo = { variationId: seen.variationId, ply };
+      }
+    });
+  }
+  
+  return variations;
+}
+
+function fenAfterLine(variation: Variation): string {
+  const last = variation.nodes[variation.nodes.length - 1];
+  if (last.children.length) return last.children[0].fen;
+  const chess = new Chess(last.fen);
+  chess.move(last.move);
+  return chess.fen();
+}
+
+function extractMainLine(node: Node): Node[] {
+  const nodes: Node[] = [];
+  let current = node;
+  
+  while (current.children.length > 0) {
+    // Follow the first child (main line)
+    current = current.children[0];
+    nodes.push(current);
+  }
+  
+  return nodes;
+}
+
+function extractSideVariations(node: Node, pathNodes: Node[], variations: Variation[], startFen: string): void {
+  // If this node has multiple children, each additional child is a variation
+  if (node.children.length > 1) {
+    for (let i = 1; i < node.children.length; i++) {
+      const variationNodes = [...pathNodes];
+      const variationRoot = node.children[i];
+      
+      // Add the variation's moves
+      collectMovesFromBranch(variationRoot, variationNodes);
+      
+      const moves = variationNodes.map(n => n.move);
+      variations.push({
+        id: lineId(startFen, moves),
+        name: branchName(moves, pathNodes.length, startFen),
+        moves,
+        nodes: variationNodes,
+        startFen,
+        mainline: false,
+        opening: classifyOpening(startFen, moves)
+      });
+    }
+  }
+  
+  // Continue down the main line, then into the side lines, which may
+  // branch again: 1.e4 e5 (1...c5 2.Nf3 (2.Nc3 Nc6) 2...d6)
+  for (const child of node.children) {
+    extractSideVariations(child, [...pathNodes, child], variations, startFen);
+  }
+}
+
+// Moves shown in a side line's name after its branch point
+const NAME_MOVES = 3;
+
+/** "after 5...a6: 6.Be3 e5 7.Nb3" – where the line leaves its parent and how it continues. */
+function branchName(moves: string[], branchPly: number, startFen: string): string {
+  const continuation = compactMoves(moves.slice(branchPly, branchPly + NAME_MOVES), startFen, branchPly);
+  if (branchPly === 0) return continuation;
+  
+  return `after ${compactMoves([moves[branchPly - 1]], startFen, branchPly - 1)}: ${continuation}`;
+}
+
+/** "6.Be3 e5 7.Nb3" / "5...a6" – numbered without spaces, for names. */
+function compactMoves(moves: string[], startFen: string, firstPly: number): string {
+  return moves.map((move, i) => {
+    const { moveNumber, white } = plyInfo(startFen, firstPly + i);
+    if (white) return `${moveNumber}.${move}`;
+    return i === 0 ? `${moveNumber}...${move}` : move;
+  }).join(' ');
+}
+
+function collectMovesFromBranch(node: Node, nodes: Node[]): void {
+  nodes.push(node);
+  
+  // Follow the main branch of this variation
+  if (node.children.length > 0) {
+    collectMovesFromBranch(node.children[0], nodes);
+  }
+}
+
+/**
+ * Move number and colour of the `ply`-th half-move (0-based) of a line
+ * starting at `startFen`, so lines set up from a FEN are numbered correctly.
+ */
+export function plyInfo(startFen: string, ply: number): { moveNumber: number; white: boolean } {
+  const [, turn = 'w', , , , fullMove = '1'] = startFen.split(' ');
+  const offset = turn === 'b' ? ply + 1 : ply;
+  
+  return {
+    moveNumber: (parseInt(fullMove, 10) || 1) + Math.floor(offset / 2),
+    white: offset % 2 === 0
+  };
+}
+
+/** From/to squares of a tree move, e.g. for highlighting it on the board. */
+export function moveSquares(node?: Node): { from: string; to: string } | undefined {
+  if (!node?.move) return undefined;
+  try {
+    const { from, to } = new Chess(node.fen).move(node.move);
+    return { from, to };
+  } catch {
+    return undefined;
+  }
+}
+
+/** "1. d4 Nf6 2. c4" – SAN moves with move numbers, starting at `startFen`. */
+export function formatMoves(moves: string[], startFen: string): string {
+  const formatted: string[] = [];
+  moves.forEach((move, i) => {
+    const { moveNumber, white } = plyInfo(startFen, i);
+    
+    if (white) {
+      formatted.push(`${moveNumber}. ${move}`);
+    } else if (i === 0) {
+      // Line starts with a black move (set-up position)
+      formatted.push(`${moveNumber}... ${move}`);
+    } else {
+      formatted.push(move);
+    }
+  });
+  return formatted.join(' ');
+}
+
+/**
+ * Training positions of one line. Pass the deck's repertoire graph to learn
+ * which positions are also reached by other move orders. Moves the line
+ * shares with an earlier line after a transposition (`sharedPlies`) are
+ * left to that line, so each position is trained once.
+ */
+export function createTrainingPositions(
+  variation: Variation,
+  userColor: 'white' | 'black',
+  graph?: RepertoireGraph
+): TrainingPosition[] {
+  const positions: TrainingPosition[] = [];
+  
+  // Simple implementation - create positions where user makes every other move
+  const isUserWhite = userColor === 'white';
+  
+  for (let i = 0; i < variation.moves.length; i++) {
+    const { moveNumber, white } = plyInfo(variation.startFen, i);
+    
+    if (white === isUserWhite && !variation.sharedPlies?.includes(i)) {
+      // This is a move the user should make
+      const moveToMake = variation.moves[i];
+      const responseMove = i + 1 < variation.moves.length ? variation.moves[i + 1] : undefined;
+      
+      const fen = calculateFenAtMove(variation.startFen, variation.moves, i);
+      const key = positionKey(fen);
+      const path = variation.moves.slice(0, i).join(' ');
+      const otherPaths = graph?.positions.get(key)?.paths.filter(p => p.join(' ') !== path);
+      
+      positions.push({
+        fen,
+        key,
+        variationId: variation.id,
+        moveNumber,
+        otherPaths: otherPaths?.length ? otherPaths : undefined,
+        moveToMake,
+        responseMove,
+        description: `Move ${moveNumber}: Play ${moveToMake}`,
+        node: variation.nodes[i],
+        responseNode: variation.nodes[i + 1]
+      });
+    }
+  }
+  
+  return positions;
+}
+
+function calculateFenAtMove(startFen: string, moves: string[], moveIndex: number): string {
+  // Calculate actual FEN by playing moves from the line's root position
+  const chess = new Chess(startFen);
+  
+  for (let i = 0; i < moveIndex; i++) {
+    try {
+      chess.move(moves[i]);
+    } catch (error) {
+      console.error(`Error applying move ${i}: ${moves[i]}`, error);
+      break;
+    }
+  }
+  
+  return chess.fen();
+}
\ No newline at end of file
@@ -0,0 +1,118 @@
+/*
+ * PGN Branch Buddy – Whole-repertoire drill
+ * -----------------------------------------
+ * Walks the `parseGame` tree from its root instead of drilling one
+ * flattened line: the user plays the repertoire move, the computer answers
+ * with one of the opponent's branches. Branches are picked uniformly at
+ * random, or weighted by how many of the user's positions behind them are
+ * due for review, so the drill steers towards what needs practice.
+ *
+ * Exported API
+ * ------------
+ *   type ReplyStrategy / DrillOptions
+ *   fenAfter(node)                       – position once `node.move` is played.
+ *   drillPosition(node, userColor)       – the user's task after `node`, if any.
+ *   dueCount(node, userColor, cards)     – due or new user positions below `node`.
+ *   pickBranch(candidates, userColor, o) – the opponent's choice among branches.
+ */
+
+import { Chess } from "chess.js";
+import { Node } from "./parsePgnService";
+import { TrainingPosition, plyInfo } from "./repertoire";
+import { positionKey } from "./repertoireGraph";
+import { CardState, isDueToday } from "./scheduler";
+
+/** How the opponent chooses between its repertoire branches. */
+export type ReplyStrategy = 'random' | 'due';
+
+export interface DrillOptions {
+  strategy: ReplyStrategy;
+  /** Scheduling state of the deck, keyed by `positionKey`. */
+  cards: Record<string, CardState>;
+  now?: number;
+  /** Source of randomness in [0, 1) – injectable for tests. */
+  random?: () => number;
+}
+
+/** Position after `node.move` – the root's own position for the root node. */
+export function fenAfter(node: Node): string {
+  if (!node.move) return node.fen;
+  if (node.children.length) return node.children[0].fen;
+
+  const chess = new Chess(node.fen);
+  chess.move(node.move);
+  return chess.fen();
+}
+
+function turnOf(fen: string): 'white' | 'black' {
+  return fen.split(' ')[1] === 'b' ? 'black' : 'white';
+}
+
+/**
+ * The move the user has to find after `node`: the repertoire's main move
+ * (first child). Undefined when it is the opponent's turn or the line ends.
+ */
+export function drillPosition(node: Node, userColor: 'white' | 'black'): TrainingPosition | undefined {
+  const expected = node.children[0];
+  if (!expected || turnOf(expected.fen) !== userColor) return undefined;
+
+  const { moveNumber } = plyInfo(expected.fen, 0);
+  return {
+    fen: expected.fen,
+    key: positionKey(expected.fen),
+    moveNumber,
+    moveToMake: expected.move,
+    description: `Move ${moveNumber}: Play ${expected.move}`,
+    node: expected
+  };
+}
+
+/** Number of distinct user positions below `node` that are new or due today. */
+export function dueCount(
+  node: Node,
+  userColor: 'white' | 'black',
+  cards: Record<string, CardState>,
+  now = Date.now()
+): number {
+  const due = new Set<string>();
+
+  const visit = (current: Node) => {
+    for (const child of current.children) {
+      if (turnOf(child.fen) === userColor) {
+        const key = positionKey(child.fen);
+        const card = cards[key];
+        if (!card || isDueToday(card, now)) due.add(key);
+      }
+      visit(child);
+    }
+  };
+  visit(node);
+
+  return due.size;
+}
+
+/**
+ * Pick one of the opponent's branches. With the 'due' strategy every branch
+ * is weighted by its due positions; when nothing is due the choice is uniform.
+ */
+export function pickBranch(
+  candidates: Node[],
+  userColor: 'white' | 'black',
+  { strategy, cards, now = Date.now(), random = Math.random }: DrillOptions
+): Node | undefined {
+  if (candidates.length <= 1) return candidates[0];
+
+  let weights = candidates.map(() => 1);
+  if (strategy === 'due') {
+    const counts = candidates.map(candidate => dueCount(candidate, userColor, cards, now));
+    if (counts.some(count => count > 0)) weights = counts;
+  }
+
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  let roll = random() * total;
+  for (let i = 0; i < candidates.length; i++) {
+    roll -= weights[i];
+    if (roll < 0) return candidates[i];
+  }
+  return candidates[candidates.length - 1];
+}
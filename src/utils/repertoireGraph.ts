@@ -0,0 +1,102 @@
+/*
+ * PGN Branch Buddy – Transposition-aware repertoire graph
+ * --------------------------------------------------------
+ * `parseGame` returns a pure tree, so 1.d4 Nf6 2.c4 e6 and 1.c4 e6 2.d4 Nf6
+ * end in two different nodes although the position is identical. This
+ * module folds one or more trees into a graph whose vertices are positions
+ * keyed by a normalised FEN (move counters dropped), so transposed
+ * positions become a single vertex with several incoming paths.
+ *
+ * Exported API
+ * ------------
+ *   positionKey(fen)             – FEN without half-/full-move counters.
+ *   buildRepertoireGraph(roots)  – merges the trees into a RepertoireGraph.
+ *   type RepertoireGraph / GraphPosition / GraphMove
+ */
+
+import { Chess } from "chess.js";
+import { Node } from "./parsePgnService";
+
+/** A repertoire move out of a position, merged across transpositions. */
+export interface GraphMove {
+  /** SAN of the move. */
+  move: string;
+  /** `positionKey` of the resulting position. */
+  to: string;
+  /** Every tree node that plays this move from this position. */
+  nodes: Node[];
+}
+
+/** One distinct position of the repertoire. */
+export interface GraphPosition {
+  /** `positionKey` of `fen`. */
+  key: string;
+  /** Full FEN of the first path that reached the position. */
+  fen: string;
+  /** Every move sequence (from its tree root) that reaches this position. */
+  paths: string[][];
+  /** Outgoing repertoire moves, de-duplicated by SAN. */
+  moves: GraphMove[];
+}
+
+export interface RepertoireGraph {
+  /** Keys of the root positions, one per tree. */
+  roots: string[];
+  positions: Map<string, GraphPosition>;
+}
+
+/**
+ * Normalise a FEN for transposition detection: piece placement, side to
+ * move, castling rights and en-passant square. chess.js only writes the
+ * en-passant square when a capture is actually possible, so no extra
+ * filtering is needed.
+ */
+export function positionKey(fen: string): string {
+  return fen.split(" ").slice(0, 4).join(" ");
+}
+
+/** Merge one or more repertoire trees into a single position graph. */
+export function buildRepertoireGraph(roots: Node[]): RepertoireGraph {
+  const graph: RepertoireGraph = { roots: [], positions: new Map() };
+
+  for (const root of roots) {
+    const start = addPosition(graph, root.fen, []);
+    graph.roots.push(start.key);
+    for (const child of root.children) walk(graph, child, [], start);
+  }
+
+  return graph;
+}
+
+function addPosition(graph: RepertoireGraph, fen: string, path: string[]): GraphPosition {
+  const key = positionKey(fen);
+  let position = graph.positions.get(key);
+  if (!position) {
+    position = { key, fen, paths: [], moves: [] };
+    graph.positions.set(key, position);
+  }
+  position.paths.push(path);
+  return position;
+}
+
+function walk(graph: RepertoireGraph, node: Node, pathBefore: string[], from: GraphPosition): void {
+  const path = [...pathBefore, node.move];
+  const to = addPosition(graph, fenAfter(node), path);
+
+  let edge = from.moves.find(m => m.move === node.move);
+  if (!edge) {
+    edge = { move: node.move, to: to.key, nodes: [] };
+    from.moves.push(edge);
+  }
+  edge.nodes.push(node);
+
+  for (const child of node.children) walk(graph, child, path, to);
+}
+
+// Children already know the position after `node.move`; leaves need a replay.
+function fenAfter(node: Node): string {
+  if (node.children.length) return node.children[0].fen;
+  const chess = new Chess(node.fen);
+  chess.move(node.move);
+  return chess.fen();
+}
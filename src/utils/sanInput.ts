@@ -0,0 +1,76 @@
+/*
+ * PGN Branch Buddy – Typed moves
+ * ------------------------------
+ * Turns what the user types into a legal move of the position. SAN is
+ * matched leniently: check and capture marks, "=" and annotations may be
+ * left out, castling may be written with zeros or lowercase letters, and
+ * a lowercase piece letter is accepted where it can't be a pawn's file
+ * ("nf3"; "bc4" stays a pawn capture if one is legal). Coordinates
+ * ("g1f3", "e7e8q") work too, and a promotion without a piece is a queen.
+ * The legal moves come from chess.js, which also decides whether a move
+ * like "Nd2" needs disambiguation.
+ *
+ * Exported API
+ * ------------
+ *   type TypedMove
+ *   resolveTypedMove(fen, input) – the move, or why there is none.
+ */
+
+import { Chess, Move } from "chess.js";
+
+export type TypedMove = { move: Move } | { error: string };
+
+// Piece letter, from file/rank, target square, promotion – marks already stripped
+const SAN_PATTERN = /^([NBRQK])?([a-h])?([1-8])?([a-h][1-8])([NBRQnbrq])?$/;
+const COORDINATES = /^([a-h][1-8])([a-h][1-8])([nbrq])?$/i;
+
+function candidates(moves: Move[], text: string): Move[] {
+  const coordinates = text.match(COORDINATES);
+  if (coordinates) {
+    const [, from, to, promotion] = coordinates;
+    return moves.filter(move =>
+      move.from === from.toLowerCase() &&
+      move.to === to.toLowerCase() &&
+      (move.promotion ?? '') === (promotion ?? (move.promotion ? 'q' : '')).toLowerCase()
+    );
+  }
+
+  const san = text.match(SAN_PATTERN);
+  if (!san) return [];
+  const [, piece = 'P', file, rank, to, promotion] = san;
+  return moves.filter(move =>
+    move.piece === piece.toLowerCase() &&
+    move.to === to &&
+    // Without a file, a pawn move is a push ("d5" is never exd5)
+    (file ? move.from[0] === file : piece !== 'P' || move.from[0] === to[0]) &&
+    (!rank || move.from[1] === rank) &&
+    (move.promotion ?? '') === (promotion ?? (move.promotion ? 'q' : '')).toLowerCase()
+  );
+}
+
+export function resolveTypedMove(fen: string, input: string): TypedMove {
+  const typed = input.trim();
+  if (!typed) return { error: "Type a move first" };
+
+  const moves = new Chess(fen).moves({ verbose: true });
+  const text = typed.replace(/[+#!?x=:\s-]/g, '');
+
+  // Castling, including "0-0" and "o-o-o"
+  if (/^[0oO]{2,3}$/.test(text)) {
+    const san = text.length === 3 ? 'O-O-O' : 'O-O';
+    const castle = moves.find(move => move.san.replace(/[+#]/g, '') === san);
+    return castle ? { move: castle } : { error: `${san} isn't possible here` };
+  }
+
+  let found = candidates(moves, text);
+  // "nf3" – a lowercase piece letter that can't be read as a pawn move
+  if (found.length === 0 && /^[nbrqk]/.test(text)) {
+    found = candidates(moves, text[0].toUpperCase() + text.slice(1));
+  }
+
+  if (found.length === 1) return { move: found[0] };
+  if (found.length > 1) {
+    return { error: `${typed} is ambiguous – ${found.map(move => move.san).join(' or ')}?` };
+  }
+  return { error: `No legal move matches "${typed}"` };
+}
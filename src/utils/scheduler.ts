@@ -0,0 +1,127 @@
+/*
+ * PGN Branch Buddy – Spaced-repetition scheduler
+ * -----------------------------------------------
+ * SM-2 style scheduling for training positions. Every position where the
+ * user has to find a move is one card, keyed by `TrainingPosition.key`
+ * (the normalised FEN), so transposed positions share their schedule.
+ *
+ * Exported API
+ * ------------
+ *   type ReviewGrade / CardState
+ *   newCard(key)                     – fresh, immediately due card.
+ *   reviewCard(card, grade, now)     – returns the rescheduled card.
+ *   isDueToday(card, now)            – due before the end of the local day.
+ *   uniquePositions(positions)       – one position per key, first wins.
+ *   dueQueue(positions, cards, now)  – today's review queue.
+ */
+
+import { TrainingPosition } from "./repertoire";
+
+/** How well the user knew the move: Anki-style buttons on top of SM-2 qualities. */
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export interface CardState {
+  /** `TrainingPosition.key` of the position. */
+  key: string;
+  /** SM-2 ease factor, never below 1.3. */
+  ease: number;
+  /** Current interval in days (0 while relearning). */
+  interval: number;
+  /** Successful reviews in a row. */
+  repetitions: number;
+  /** How often the card was forgotten after being learned. */
+  lapses: number;
+  /** Timestamp (ms) when the card is due again. */
+  due: number;
+  lastReviewed?: number;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+const RELEARN_DELAY = 10 * 60 * 1000;
+const MIN_EASE = 1.3;
+const INITIAL_EASE = 2.5;
+
+// SM-2 response quality (0–5) for each grade
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5
+};
+
+export function newCard(key: string, now = Date.now()): CardState {
+  return { key, ease: INITIAL_EASE, interval: 0, repetitions: 0, lapses: 0, due: now };
+}
+
+/** Apply one review to `card` and return the rescheduled copy. */
+export function reviewCard(card: CardState, grade: ReviewGrade, now = Date.now()): CardState {
+  const quality = GRADE_QUALITY[grade];
+  const ease = Math.max(
+    MIN_EASE,
+    card.ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  if (quality < 3) {
+    // Forgotten – start over, and show it again later in the same session
+    return {
+      ...card,
+      ease,
+      interval: 0,
+      repetitions: 0,
+      lapses: card.repetitions > 0 ? card.lapses + 1 : card.lapses,
+      due: now + RELEARN_DELAY,
+      lastReviewed: now
+    };
+  }
+
+  const repetitions = card.repetitions + 1;
+  let interval: number;
+  if (repetitions === 1) interval = 1;
+  else if (repetitions === 2) interval = 6;
+  else interval = Math.round(card.interval * ease);
+
+  // "Easy" gets a bonus, "hard" a penalty on top of the ease change
+  if (grade === 'easy') interval = Math.round(interval * 1.3);
+  if (grade === 'hard') interval = Math.max(1, Math.round(interval * 0.8));
+
+  return { ...card, ease, interval, repetitions, due: now + interval * DAY, lastReviewed: now };
+}
+
+export function isDueToday(card: CardState, now = Date.now()): boolean {
+  const endOfDay = new Date(now);
+  endOfDay.setHours(23, 59, 59, 999);
+  return card.due <= endOfDay.getTime();
+}
+
+/** De-duplicate positions by key, keeping the first occurrence (main line first). */
+export function uniquePositions(positions: TrainingPosition[]): TrainingPosition[] {
+  const seen = new Set<string>();
+  return positions.filter(position => {
+    if (seen.has(position.key)) return false;
+    seen.add(position.key);
+    return true;
+  });
+}
+
+/**
+ * Today's queue: reviewed cards that are due (most overdue first), followed
+ * by at most `newLimit` positions that have never been reviewed.
+ */
+export function dueQueue(
+  positions: TrainingPosition[],
+  cards: Record<string, CardState>,
+  now = Date.now(),
+  newLimit = 20
+): TrainingPosition[] {
+  const due: TrainingPosition[] = [];
+  const fresh: TrainingPosition[] = [];
+
+  for (const position of uniquePositions(positions)) {
+    const card = cards[position.key];
+    if (!card) fresh.push(position);
+    else if (isDueToday(card, now)) due.push(position);
+  }
+
+  due.sort((a, b) => cards[a.key].due - cards[b.key].due);
+  return [...due, ...fresh.slice(0, newLimit)];
+}
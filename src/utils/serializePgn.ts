@@ -0,0 +1,155 @@
+/*
+ * PGN Branch Buddy – Node tree to PGN serializer
+ * -----------------------------------------------
+ * The inverse of parsePgnService: writes a repertoire tree back out as
+ * standard PGN with header tags, move numbers (including "N..." after a
+ * comment or variation interrupts the line), nested RAVs, comments with
+ * their [%cmd] annotations, NAGs and a result token.
+ *
+ * Exported API
+ * ------------
+ *   serializeGame(root, headers) – one game as PGN text.
+ *   serializeGames(games)        – several ParsedGames, blank-line separated.
+ */
+
+import { DEFAULT_POSITION } from "chess.js";
+import { Node, ParsedGame, BoardArrow, SquareHighlight } from "./parsePgnService";
+
+// The Seven Tag Roster comes first, in this order (PGN standard §8.1.1)
+const SEVEN_TAG_ROSTER = ["Event", "Site", "Date", "Round", "White", "Black", "Result"];
+const GAME_RESULTS = ["1-0", "0-1", "1/2-1/2", "*"];
+const MAX_LINE_LENGTH = 80;
+
+const COLOR_LETTERS: Record<BoardArrow["color"], string> = {
+  green: "G", red: "R", yellow: "Y", blue: "B",
+};
+
+/** Write one game (tree + headers) as PGN text. */
+export function serializeGame(root: Node, headers: Record<string, string> = {}): string {
+  const result = GAME_RESULTS.includes(headers.Result) ? headers.Result : "*";
+  const tags: Record<string, string> = { ...headers, Result: result };
+
+  // A set-up position must be recorded, otherwise the moves are illegal
+  if (root.fen !== DEFAULT_POSITION && !tags.FEN) {
+    tags.SetUp = "1";
+    tags.FEN = root.fen;
+  }
+
+  const tokens: string[] = [];
+  if (root.commentAfter) tokens.push(comment(root.commentAfter));
+  writeLine(root, tokens, true);
+  tokens.push(result);
+
+  return `${formatTags(tags)}\n\n${wrap(tokens)}\n`;
+}
+
+/** Write several games, separated by a blank line. */
+export function serializeGames(games: ParsedGame[]): string {
+  return games.map(game => serializeGame(game.root, game.headers)).join("\n");
+}
+
+function formatTags(tags: Record<string, string>): string {
+  const keys = [
+    ...SEVEN_TAG_ROSTER.filter(key => key in tags),
+    ...Object.keys(tags).filter(key => !SEVEN_TAG_ROSTER.includes(key)),
+  ];
+  return keys
+    .map(key => `[${key} "${tags[key].replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"]`)
+    .join("\n");
+}
+
+/**
+ * Write the main line below `parent`, with every alternative as a RAV right
+ * after the move it replaces. `needsNumber` forces "N..." on a black move.
+ */
+function writeLine(parent: Node, tokens: string[], needsNumber: boolean): void {
+  let node = parent;
+
+  while (node.children.length > 0) {
+    const [main, ...alternatives] = node.children;
+    let interrupted = writeMove(main, tokens, needsNumber);
+
+    for (const alternative of alternatives) {
+      tokens.push("(");
+      const commented = writeMove(alternative, tokens, true);
+      writeLine(alternative, tokens, commented);
+      tokens.push(")");
+      interrupted = true;
+    }
+
+    needsNumber = interrupted;
+    node = main;
+  }
+}
+
+/** Write one move with its number, NAGs and comments; true if a comment follows it. */
+function writeMove(node: Node, tokens: string[], needsNumber: boolean): boolean {
+  const [, turn, , , , fullMove] = node.fen.split(" ");
+
+  if (node.commentBefore) {
+    tokens.push(comment(node.commentBefore));
+    needsNumber = true;
+  }
+  if (turn === "w") tokens.push(`${fullMove}.`);
+  else if (needsNumber) tokens.push(`${fullMove}...`);
+
+  tokens.push(node.move);
+  node.nags?.forEach(nag => tokens.push(nag));
+
+  if (!hasCommentAfter(node)) return false;
+  tokens.push(comment(node.commentAfter ?? "", commandsOf(node)));
+  return true;
+}
+
+function hasCommentAfter(node: Node): boolean {
+  return Boolean(node.commentAfter || commandsOf(node).length);
+}
+
+// Arrows and highlights are written from the parsed fields so that edits to
+// them survive; every other [%cmd] is written back verbatim.
+function commandsOf(node: Node): string[] {
+  const commands = Object.entries(node.commands ?? {})
+    .filter(([name]) => name !== "cal" && name !== "csl")
+    .map(([name, value]) => `[%${name} ${value}]`);
+
+  if (node.arrows?.length) commands.unshift(`[%cal ${node.arrows.map(formatArrow).join(",")}]`);
+  if (node.highlights?.length) commands.unshift(`[%csl ${node.highlights.map(formatHighlight).join(",")}]`);
+  return commands;
+}
+
+function formatArrow({ color, from, to }: BoardArrow): string {
+  return `${COLOR_LETTERS[color]}${from}${to}`;
+}
+
+function formatHighlight({ color, square }: SquareHighlight): string {
+  return `${COLOR_LETTERS[color]}${square}`;
+}
+
+function comment(text: string, commands: string[] = []): string {
+  const body = [text.replace(/}/g, ")").trim(), ...commands].filter(Boolean).join(" ");
+  return `{${body}}`;
+}
+
+/**
+ * Join tokens with spaces, breaking lines before they exceed 80 characters.
+ * A comment is never split – the parser would keep the line break in its
+ * text – so a comment longer than that gets a line of its own.
+ */
+function wrap(tokens: string[]): string {
+  const lines: string[] = [];
+  let line = "";
+
+  for (const token of tokens) {
+    // No space after "(" or before ")"
+    const glue = line === "" || line.endsWith("(") || token === ")" ? "" : " ";
+    if (line && line.length + glue.length + token.length > MAX_LINE_LENGTH) {
+      lines.push(line);
+      line = token;
+    } else {
+      line += glue + token;
+    }
+  }
+  if (line) lines.push(line);
+
+  return lines.join("\n");
+}
@@ -0,0 +1,136 @@
+/*
+ * PGN Branch Buddy – Training statistics
+ * --------------------------------------
+ * Aggregates for the statistics page, computed from a deck's log of move
+ * attempts and its scheduling state. Days are local calendar days; every
+ * series covers its whole range, with empty days as zeros, so the charts
+ * don't skip dates.
+ *
+ * Exported API
+ * ------------
+ *   type DayActivity / MissedPosition / Accuracy / ForecastDay
+ *   dailyActivity(attempts, days, now)   – attempts and accuracy per day.
+ *   mostMissed(attempts, limit)          – positions with the most wrong moves.
+ *   accuracyByVariation(attempts)        – one entry per variation id.
+ *   accuracyByDepth(attempts)            – one entry per move number.
+ *   dueForecast(cards, days, now)        – cards falling due per day.
+ */
+
+import { addDays, differenceInCalendarDays, format, startOfDay } from "date-fns";
+import { MoveAttempt } from "./deckStorage";
+import { CardState } from "./scheduler";
+
+export interface DayActivity {
+  /** Local date, yyyy-MM-dd. */
+  date: string;
+  attempts: number;
+  correct: number;
+  /** Share of correct moves in percent; `null` on days without training. */
+  accuracy: number | null;
+}
+
+export interface MissedPosition {
+  key: string;
+  fen: string;
+  moveNumber: number;
+  expected: string;
+  /** Line of the latest attempt, if it was trained in one. */
+  variationId?: string;
+  misses: number;
+  attempts: number;
+}
+
+export interface Accuracy<K> {
+  group: K;
+  attempts: number;
+  correct: number;
+  accuracy: number;
+}
+
+export interface ForecastDay {
+  date: string;
+  due: number;
+}
+
+const dayKey = (time: number | Date) => format(time, 'yyyy-MM-dd');
+
+const percent = (correct: number, total: number) => Math.round((correct / total) * 100);
+
+/** The last `days` days up to and including today. */
+export function dailyActivity(attempts: MoveAttempt[], days = 30, now = Date.now()): DayActivity[] {
+  const first = addDays(startOfDay(now), -(days - 1));
+  const byDay = new Map<string, DayActivity>();
+  for (let i = 0; i < days; i++) {
+    const date = dayKey(addDays(first, i));
+    byDay.set(date, { date, attempts: 0, correct: 0, accuracy: null });
+  }
+
+  for (const attempt of attempts) {
+    const day = byDay.get(dayKey(attempt.attemptedAt));
+    if (!day) continue;
+    day.attempts++;
+    if (attempt.correct) day.correct++;
+  }
+
+  return [...byDay.values()].map(day => ({
+    ...day,
+    accuracy: day.attempts ? percent(day.correct, day.attempts) : null
+  }));
+}
+
+/** Positions answered wrongly at least once, most misses first. */
+export function mostMissed(attempts: MoveAttempt[], limit = 10): MissedPosition[] {
+  const byKey = new Map<string, MissedPosition>();
+  for (const attempt of attempts) {
+    const entry = byKey.get(attempt.key)
+      ?? { key: attempt.key, fen: attempt.fen, moveNumber: attempt.moveNumber, expected: attempt.expected, misses: 0, attempts: 0 };
+    entry.attempts++;
+    entry.variationId = attempt.variationId ?? entry.variationId;
+    if (!attempt.correct) entry.misses++;
+    byKey.set(attempt.key, entry);
+  }
+
+  return [...byKey.values()]
+    .filter(entry => entry.misses > 0)
+    .sort((a, b) => b.misses - a.misses || b.misses / b.attempts - a.misses / a.attempts)
+    .slice(0, limit);
+}
+
+function accuracyBy<K>(attempts: MoveAttempt[], groupOf: (attempt: MoveAttempt) => K | undefined): Accuracy<K>[] {
+  const groups = new Map<K, Accuracy<K>>();
+  for (const attempt of attempts) {
+    const group = groupOf(attempt);
+    if (group === undefined) continue;
+    const entry = groups.get(group) ?? { group, attempts: 0, correct: 0, accuracy: 0 };
+    entry.attempts++;
+    if (attempt.correct) entry.correct++;
+    groups.set(group, entry);
+  }
+
+  return [...groups.values()].map(entry => ({ ...entry, accuracy: percent(entry.correct, entry.attempts) }));
+}
+
+/** Weakest variations first. Attempts without a variation are left out. */
+export function accuracyByVariation(attempts: MoveAttempt[]): Accuracy<string>[] {
+  return accuracyBy(attempts, attempt => attempt.variationId)
+    .sort((a, b) => a.accuracy - b.accuracy || b.attempts - a.attempts);
+}
+
+/** Ordered by move number. */
+export function accuracyByDepth(attempts: MoveAttempt[]): Accuracy<number>[] {
+  return accuracyBy(attempts, attempt => attempt.moveNumber)
+    .sort((a, b) => a.group - b.group);
+}
+
+/** Reviews due on each of the next `days` days; overdue cards count for today. */
+export function dueForecast(cards: Record<string, CardState>, days = 14, now = Date.now()): ForecastDay[] {
+  const today = startOfDay(now);
+  const forecast = Array.from({ length: days }, (_, i) => ({ date: dayKey(addDays(today, i)), due: 0 }));
+
+  for (const card of Object.values(cards)) {
+    const offset = Math.max(0, differenceInCalendarDays(card.due, today));
+    if (offset < days) forecast[offset].due++;
+  }
+
+  return forecast;
+}
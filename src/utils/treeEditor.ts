@@ -0,0 +1,146 @@
+/*
+ * PGN Branch Buddy – Repertoire tree editing
+ * ------------------------------------------
+ * Pure edit operations on a `Node` tree. Nodes are addressed by their path
+ * (child indexes from the root) and every operation returns a new root that
+ * shares all untouched subtrees with the old one, so the previous roots can
+ * be kept as undo history and React sees a new object after every edit.
+ *
+ * Exported API
+ * ------------
+ *   type NodePath / EditHistory
+ *   nodeAt(root, path) / pathTo(root, node)
+ *   addMove(root, path, san)        – play a move after `path`, new branch if needed.
+ *   deleteSubtree(root, path)       – remove a move and everything after it.
+ *   promoteVariation(root, path)    – make a move the main line at its branch point.
+ *   setComments(root, path, patch)  – change the comments of a move (or the game).
+ *   recordEdit / undoEdit / redoEdit – undo/redo stacks of whole roots.
+ */
+
+import { Chess } from "chess.js";
+import { Node } from "./parsePgnService";
+
+/** Child indexes from the root; `[]` is the root itself. */
+export type NodePath = number[];
+
+export interface EditHistory {
+  /** Earlier roots, most recent last. */
+  past: Node[];
+  /** Undone roots, most recent last. */
+  future: Node[];
+}
+
+export const emptyHistory: EditHistory = { past: [], future: [] };
+
+// Undo steps kept per game
+const HISTORY_LIMIT = 100;
+
+export function nodeAt(root: Node, path: NodePath): Node | undefined {
+  let node: Node | undefined = root;
+  for (const index of path) node = node?.children[index];
+  return node;
+}
+
+export function pathTo(root: Node, target: Node): NodePath | null {
+  if (root === target) return [];
+  for (let i = 0; i < root.children.length; i++) {
+    const rest = pathTo(root.children[i], target);
+    if (rest) return [i, ...rest];
+  }
+  return null;
+}
+
+// Copy the nodes along `path` and replace the last one with `update(node)`
+function updateAt(node: Node, path: NodePath, update: (node: Node) => Node): Node {
+  if (path.length === 0) return update(node);
+
+  const [index, ...rest] = path;
+  const children = [...node.children];
+  children[index] = updateAt(children[index], rest, update);
+  return { ...node, children };
+}
+
+function positionAfter(node: Node): string {
+  if (!node.move) return node.fen;
+  const chess = new Chess(node.fen);
+  chess.move(node.move);
+  return chess.fen();
+}
+
+/**
+ * Play `san` in the position after the node at `path`. An existing child
+ * with the same move is reused; otherwise the move becomes a new variation
+ * (or the main line, if the node had no continuation). Throws on illegal moves.
+ */
+export function addMove(root: Node, path: NodePath, san: string): { root: Node; path: NodePath } {
+  const parent = nodeAt(root, path);
+  if (!parent) throw new Error(`No move at path ${path.join('.')}`);
+
+  const fen = positionAfter(parent);
+  const played = new Chess(fen).move(san).san;
+  const existing = parent.children.findIndex(child => child.move === played);
+  if (existing >= 0) return { root, path: [...path, existing] };
+
+  const node: Node = { fen, move: played, children: [] };
+  return {
+    root: updateAt(root, path, target => ({ ...target, children: [...target.children, node] })),
+    path: [...path, parent.children.length]
+  };
+}
+
+export function deleteSubtree(root: Node, path: NodePath): Node {
+  if (path.length === 0) throw new Error("The root of a game can't be deleted");
+
+  const parentPath = path.slice(0, -1);
+  const index = path[path.length - 1];
+  return updateAt(root, parentPath, parent => ({
+    ...parent,
+    children: parent.children.filter((_, i) => i !== index)
+  }));
+}
+
+/** Move a variation to the front of its siblings, i.e. make it the main move there. */
+export function promoteVariation(root: Node, path: NodePath): { root: Node; path: NodePath } {
+  if (path.length === 0) return { root, path };
+
+  const parentPath = path.slice(0, -1);
+  const index = path[path.length - 1];
+  return {
+    root: updateAt(root, parentPath, parent => ({
+      ...parent,
+      children: [parent.children[index], ...parent.children.filter((_, i) => i !== index)]
+    })),
+    path: [...parentPath, 0]
+  };
+}
+
+/** Empty strings remove a comment. On the root, `commentAfter` is the game comment. */
+export function setComments(
+  root: Node,
+  path: NodePath,
+  patch: Partial<Pick<Node, 'commentBefore' | 'commentAfter'>>
+): Node {
+  return updateAt(root, path, node => {
+    const updated = { ...node, ...patch };
+    if (!updated.commentBefore) delete updated.commentBefore;
+    if (!updated.commentAfter) delete updated.commentAfter;
+    return updated;
+  });
+}
+
+/** Remember `previous` before an edit; an edit clears the redo stack. */
+export function recordEdit(history: EditHistory, previous: Node): EditHistory {
+  return { past: [...history.past, previous].slice(-HISTORY_LIMIT), future: [] };
+}
+
+export function undoEdit(history: EditHistory, current: Node): { history: EditHistory; root: Node } | null {
+  const root = history.past[history.past.length - 1];
+  if (!root) return null;
+  return { root, history: { past: history.past.slice(0, -1), future: [...history.future, current] } };
+}
+
+export function redoEdit(history: EditHistory, current: Node): { history: EditHistory; root: Node } | null {
+  const root = history.future[history.future.length - 1];
+  if (!root) return null;
+  return { root, history: { past: [...history.past, current], future: history.future.slice(0, -1) } };
+}
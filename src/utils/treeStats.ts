@@ -0,0 +1,71 @@
+/*
+ * PGN Branch Buddy – Subtree statistics
+ * -------------------------------------
+ * Per-node summaries for the move-tree explorer: how many lines leave a
+ * node, how deep they go, and how far the user's positions below it have
+ * been trained. Computed for the whole tree in one pass, so rendering a
+ * large repertoire doesn't re-walk it for every move.
+ *
+ * Exported API
+ * ------------
+ *   type SubtreeStats
+ *   collectSubtreeStats(root, userColor, cards, now) – Map<Node, SubtreeStats>.
+ */
+
+import { Node } from "./parsePgnService";
+import { positionKey } from "./repertoireGraph";
+import { CardState, isDueToday } from "./scheduler";
+
+export interface SubtreeStats {
+  /** Lines (leaf moves) in the subtree. */
+  branches: number;
+  /** Longest continuation after the node, in plies. */
+  depth: number;
+  /** User positions in the subtree, by training status. */
+  learned: number;
+  due: number;
+  fresh: number;
+}
+
+/**
+ * Statistics for `root` and every node below it. A node's subtree starts
+ * with the position after its move, so the root covers the whole game.
+ */
+export function collectSubtreeStats(
+  root: Node,
+  userColor: 'white' | 'black',
+  cards: Record<string, CardState>,
+  now = Date.now()
+): Map<Node, SubtreeStats> {
+  const stats = new Map<Node, SubtreeStats>();
+  const userTurn = userColor === 'white' ? 'w' : 'b';
+
+  const visit = (node: Node): SubtreeStats => {
+    const own: SubtreeStats = { branches: 0, depth: 0, learned: 0, due: 0, fresh: 0 };
+
+    // The user has to find a move in the position after this one
+    const next = node.children[0];
+    if (next && next.fen.split(' ')[1] === userTurn) {
+      const card = cards[positionKey(next.fen)];
+      if (!card) own.fresh++;
+      else if (isDueToday(card, now)) own.due++;
+      else own.learned++;
+    }
+
+    if (node.children.length === 0) own.branches = 1;
+    for (const child of node.children) {
+      const sub = visit(child);
+      own.branches += sub.branches;
+      own.depth = Math.max(own.depth, sub.depth + 1);
+      own.learned += sub.learned;
+      own.due += sub.due;
+      own.fresh += sub.fresh;
+    }
+
+    stats.set(node, own);
+    return own;
+  };
+  visit(root);
+
+  return stats;
+}
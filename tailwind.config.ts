@@ -57,7 +57,9 @@ export default {
 					dark: 'hsl(var(--chess-dark))',
 					border: 'hsl(var(--chess-border))',
 					highlight: 'hsl(var(--chess-highlight))',
-					selected: 'hsl(var(--chess-selected))'
+					selected: 'hsl(var(--chess-selected))',
+					'last-move': 'hsl(var(--chess-last-move))',
+					check: 'hsl(var(--chess-check))'
 				},
 				sidebar: {
 					DEFAULT: 'hsl(var(--sidebar-background))',